@@ -11,7 +11,15 @@ import { reducers } from './store/reducers';
 import { globalEffects } from './store/effects';
 import { KeycloakService, initializeKeycloak, keycloakInterceptor } from './core/auth';
 import { createTranslateLoader } from './core/config/translate-loader.factory';
-import { GlobalErrorHandler, errorInterceptor } from './core/error';
+import {
+  GlobalErrorHandler,
+  correlationInterceptor,
+  errorInterceptor,
+  retryInterceptor,
+  timeoutInterceptor,
+} from './core/error';
+import { mockApiInterceptor } from './core/mock-api';
+import { ConsolePerformanceHook, PERFORMANCE_HOOKS, performanceInterceptor } from './core/performance';
 
 export const appConfig: ApplicationConfig = {
   providers: [
@@ -22,8 +30,21 @@ export const appConfig: ApplicationConfig = {
     { provide: ErrorHandler, useClass: GlobalErrorHandler },
     // HTTP Client with interceptors
     provideHttpClient(
-      withInterceptors([keycloakInterceptor, errorInterceptor])
+      withInterceptors([
+        keycloakInterceptor,
+        correlationInterceptor,
+        performanceInterceptor,
+        errorInterceptor,
+        timeoutInterceptor,
+        retryInterceptor,
+        mockApiInterceptor,
+      ])
     ),
+    // Request timing hooks (slow requests are logged to the console in development)
+    {
+      provide: PERFORMANCE_HOOKS,
+      useValue: isDevMode() ? [new ConsolePerformanceHook()] : [],
+    },
     // ngx-translate
     importProvidersFrom(
       TranslateModule.forRoot({
@@ -1,5 +1,5 @@
 import { Routes } from '@angular/router';
-import { authGuard } from './core/auth';
+import { authGuard, permissionGuard } from './core/auth';
 import { guestGuard } from './core/guards';
 
 export const routes: Routes = [
@@ -47,12 +47,18 @@ export const routes: Routes = [
           import('./features/home/home.component').then(
             (m) => m.HomeComponent
           ),
+        data: { nav: { label: 'nav.dashboard', icon: 'home', order: 10 } },
       },
       // Users feature (lazy-loaded with feature store)
       {
         path: 'users',
         loadChildren: () =>
           import('./features/users').then((m) => m.USERS_ROUTES),
+        canActivate: [permissionGuard],
+        data: {
+          permissions: ['users.view'],
+          nav: { label: 'nav.users', icon: 'users', order: 20 },
+        },
       },
       // Default redirect to dashboard
       {
@@ -64,10 +70,30 @@ export const routes: Routes = [
   },
 
   // ===========================
-  // Fallback Routes
+  // Error Pages (Public Layout)
   // ===========================
   {
-    path: '**',
-    redirectTo: '',
+    path: '',
+    loadComponent: () =>
+      import('./core/layout/public-layout/public-layout.component').then(
+        (m) => m.PublicLayoutComponent
+      ),
+    children: [
+      {
+        path: 'unauthorized',
+        loadComponent: () =>
+          import('./features/errors/pages/unauthorized/unauthorized.component').then(
+            (m) => m.UnauthorizedComponent
+          ),
+      },
+      // Fallback: any URL no route above matches
+      {
+        path: '**',
+        loadComponent: () =>
+          import('./features/errors/pages/not-found/not-found.component').then(
+            (m) => m.NotFoundComponent
+          ),
+      },
+    ],
   },
 ];
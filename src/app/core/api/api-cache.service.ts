@@ -0,0 +1,97 @@
+/**
+ * API Cache Service
+ *
+ * In-memory store for cached GET responses used by BaseApiService.
+ * Entries are grouped by resource (the first path segment, e.g. `/users`)
+ * so that a mutation on any path of a resource invalidates all of its reads.
+ */
+
+import { Injectable } from '@angular/core';
+import { ApiCacheEntry, ApiCacheHit, ApiCachePolicy } from './models/api-cache.model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ApiCacheService {
+  private readonly entries = new Map<string, ApiCacheEntry>();
+  private readonly maxEntries = 200;
+
+  /**
+   * Look up a cached response
+   *
+   * Returns undefined when there is no entry or it is past its
+   * stale-while-revalidate window.
+   */
+  lookup<T>(key: string): ApiCacheHit<T> | undefined {
+    const entry = this.entries.get(key) as ApiCacheEntry<T> | undefined;
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = Date.now();
+
+    if (now >= entry.staleUntil) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return { value: entry.value, stale: now >= entry.expiresAt };
+  }
+
+  /**
+   * Store a response
+   */
+  set<T>(key: string, resource: string, value: T, policy: ApiCachePolicy): void {
+    const now = Date.now();
+
+    // Re-insert so that Map order reflects recency
+    this.entries.delete(key);
+    this.entries.set(key, {
+      key,
+      resource,
+      value,
+      storedAt: now,
+      expiresAt: now + policy.ttl,
+      staleUntil: now + policy.ttl + policy.staleWhileRevalidate,
+    });
+
+    // Evict oldest entries if too large
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove every entry belonging to a resource
+   */
+  invalidateResource(resource: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.resource === resource) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Remove a single entry
+   */
+  invalidate(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries (e.g. on logout)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
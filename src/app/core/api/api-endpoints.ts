@@ -3,8 +3,23 @@
  *
  * Centralized API endpoint definitions.
  * All API URLs should be defined here for easy maintenance.
+ *
+ * Each entry is a typed contract (see endpoint-definition.ts) that can be
+ * passed to BaseApiService.call() or invoked to build the path:
+ *
+ * @example
+ * this.apiService.call(API_ENDPOINTS.users.byId, { id });  // Observable<User>
+ * API_ENDPOINTS.users.byId(id);                            // '/users/123'
+ *
+ * Groups served by another backend than environment.apiUrl are wrapped in
+ * forTarget() with the name of a target from environment.apiTargets.
  */
 
+import { endpoint } from './endpoint-definition';
+import { PaginatedResponse } from './models/api-response.model';
+import { paginatedResponseSchema, userSchema } from './schemas';
+import { CreateUserDto, UpdateUserDto, User, UserListQuery } from '../../shared/models';
+
 /**
  * API Endpoints
  *
@@ -13,28 +28,43 @@
 export const API_ENDPOINTS = {
   // Authentication & Users
   auth: {
-    login: '/auth/login',
-    logout: '/auth/logout',
-    refresh: '/auth/refresh',
-    me: '/auth/me',
+    login: endpoint.post('/auth/login'),
+    logout: endpoint.post('/auth/logout'),
+    refresh: endpoint.post('/auth/refresh'),
+    me: endpoint.get('/auth/me'),
   },
 
   users: {
-    list: '/users',
-    byId: (id: string | number) => `/users/${id}`,
-    create: '/users',
-    update: (id: string | number) => `/users/${id}`,
-    delete: (id: string | number) => `/users/${id}`,
-    profile: '/users/profile',
+    list: endpoint
+      .get('/users')
+      .query<UserListQuery>()
+      .returns<PaginatedResponse<User>>()
+      .validate(paginatedResponseSchema(userSchema)),
+    byId: endpoint.get('/users/:id').returns<User>().validate(userSchema),
+    create: endpoint.post('/users').body<CreateUserDto>().returns<User>().validate(userSchema),
+    update: endpoint.put('/users/:id').body<UpdateUserDto>().returns<User>().validate(userSchema),
+    delete: endpoint.delete('/users/:id').returns<void>(),
+    profile: endpoint.get('/users/profile').returns<User>().validate(userSchema),
+    updateProfile: endpoint
+      .put('/users/profile')
+      .body<UpdateUserDto>()
+      .returns<User>()
+      .validate(userSchema),
   },
 
   // Add more endpoint groups here
   // Example:
   // products: {
-  //   list: '/products',
-  //   byId: (id: string | number) => `/products/${id}`,
-  //   search: '/products/search',
+  //   list: endpoint.get('/products').returns<Product[]>(),
+  //   byId: endpoint.get('/products/:id').returns<Product>(),
+  //   search: endpoint.get('/products/search').query<{ q: string }>().returns<Product[]>(),
   // },
+  //
+  // Groups on another backend (see environment.apiTargets):
+  // payslips: forTarget('finance', {
+  //   list: endpoint.get('/payslips').returns<Payslip[]>(),
+  //   download: endpoint.get('/payslips/:id/pdf').returns<Blob>(),
+  // }),
 
 } as const;
 
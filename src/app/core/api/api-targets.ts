@@ -0,0 +1,72 @@
+/**
+ * API Targets
+ *
+ * Backends the app talks to: the default API (environment.apiUrl) plus the
+ * named targets in environment.apiTargets. Endpoint groups are bound to a
+ * target with forTarget() in API_ENDPOINTS; the Keycloak interceptor applies
+ * each target's headers, timeout and token rules.
+ */
+
+import { environment } from '../../../environments/environment';
+import { ApiTargetConfig, ApiTargets } from '../../../environments/environment.interface';
+
+/**
+ * Name of the target serving environment.apiUrl
+ */
+export const DEFAULT_API_TARGET = 'default';
+
+/**
+ * Name of an API target
+ */
+export type ApiTargetName = typeof DEFAULT_API_TARGET | keyof ApiTargets;
+
+/**
+ * All API targets by name
+ */
+export const API_TARGETS: Readonly<Record<ApiTargetName, ApiTargetConfig>> = {
+  [DEFAULT_API_TARGET]: { url: environment.apiUrl },
+  ...environment.apiTargets,
+};
+
+/**
+ * A target matched against a request URL
+ */
+export interface ResolvedApiTarget {
+  name: ApiTargetName;
+  config: ApiTargetConfig;
+  /** Request path below the target URL, without query string */
+  path: string;
+}
+
+/**
+ * Base URL of a target
+ */
+export function getApiTargetUrl(target: ApiTargetName = DEFAULT_API_TARGET): string {
+  return API_TARGETS[target].url;
+}
+
+/**
+ * Find the target a URL belongs to
+ *
+ * The longest matching target URL wins, so targets may be nested below
+ * apiUrl (e.g. `${apiUrl}/hr`).
+ *
+ * @returns The target, or null for URLs outside every target (assets, ...)
+ */
+export function resolveApiTarget(url: string): ResolvedApiTarget | null {
+  const path = url.split('?')[0];
+  let match: ResolvedApiTarget | null = null;
+  let matchLength = -1;
+
+  for (const [name, config] of Object.entries(API_TARGETS) as [ApiTargetName, ApiTargetConfig][]) {
+    const base = config.url.replace(/\/+$/, '');
+    const isBelow = path === base || path.startsWith(`${base}/`);
+
+    if (isBelow && base.length > matchLength) {
+      match = { name, config, path: path.slice(base.length) || '/' };
+      matchLength = base.length;
+    }
+  }
+
+  return match;
+}
@@ -0,0 +1,626 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HttpContext,
+  HttpEventType,
+  HttpHeaders,
+  provideHttpClient,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { environment } from '../../../environments/environment';
+import { AppError, ErrorLoggingService, RETRY_CONFIG } from '../error';
+import { ToastService } from '../notifications';
+import { ApiCacheService } from './api-cache.service';
+import { API_ENDPOINTS } from './api-endpoints';
+import { BaseApiService } from './base-api.service';
+import { endpoint, forTarget } from './endpoint-definition';
+import { ApiDownload, UploadProgress } from './models/file-transfer.model';
+import { OfflineQueueService } from './offline-queue.service';
+import { schema } from './schema';
+
+describe('BaseApiService', () => {
+  const baseUrl = environment.apiUrl;
+  let service: BaseApiService;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        importProvidersFrom(TranslateModule.forRoot()),
+      ],
+    });
+
+    spyOn(TestBed.inject(ErrorLoggingService), 'log');
+    service = TestBed.inject(BaseApiService);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  describe('urls', () => {
+    it('should prefix relative endpoints with the base URL', () => {
+      service.get('users').subscribe();
+
+      controller.expectOne(`${baseUrl}/users`).flush([]);
+    });
+
+    it('should leave absolute URLs untouched', () => {
+      service.get('https://example.com/status').subscribe();
+
+      controller.expectOne('https://example.com/status').flush({});
+    });
+
+    it('should prefix relative endpoints with the URL of a named target', () => {
+      service.get('/leaves', { target: 'hr' }).subscribe();
+
+      controller.expectOne(`${environment.apiTargets.hr.url}/leaves`).flush([]);
+    });
+
+    it('should call an endpoint bound to a target on that target', () => {
+      const leaves = forTarget('hr', { list: endpoint.get('/leaves').returns<unknown[]>() });
+      service.call(leaves.list).subscribe();
+
+      controller.expectOne(`${environment.apiTargets.hr.url}/leaves`).flush([]);
+    });
+  });
+
+  describe('retry options', () => {
+    it('should pass a partial retry config to the retry interceptor', () => {
+      service.get('/users', { retry: { maxRetries: 5 } }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      expect(req.request.context.get(RETRY_CONFIG)).toEqual({ maxRetries: 5 });
+      req.flush([]);
+    });
+
+    it('should disable retrying with retry: false', () => {
+      service.post('/users', {}, { retry: false }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      expect(req.request.context.get(RETRY_CONFIG)).toBeFalse();
+      req.flush({});
+    });
+
+    it('should keep the default config when retry is omitted or true', () => {
+      service.get('/users', { retry: true }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      expect(req.request.context.get(RETRY_CONFIG)).toEqual({});
+      req.flush([]);
+    });
+
+    it("should not set tokens on the caller's context", () => {
+      const context = new HttpContext();
+      service.get('/users', { context, retry: false }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      expect(req.request.context.get(RETRY_CONFIG)).toBeFalse();
+      expect(context.has(RETRY_CONFIG)).toBeFalse();
+      req.flush([]);
+    });
+  });
+
+  describe('in-flight de-duplication', () => {
+    it('should share one request among concurrent identical GETs', () => {
+      const results: unknown[] = [];
+      service.get('/users').subscribe((users) => results.push(users));
+      service.get('/users').subscribe((users) => results.push(users));
+
+      controller.expectOne(`${baseUrl}/users`).flush([{ id: '1' }]);
+
+      expect(results).toEqual([[{ id: '1' }], [{ id: '1' }]]);
+    });
+
+    it('should share requests whose params only differ in order', () => {
+      service.get('/users', { params: { page: 1, size: 10 } }).subscribe();
+      service.get('/users', { params: { size: 10, page: 1 } }).subscribe();
+
+      controller.expectOne(() => true).flush([]);
+    });
+
+    it('should send separate requests for different params or headers', () => {
+      service.get('/users', { params: { page: 1 } }).subscribe();
+      service.get('/users', { params: { page: 2 } }).subscribe();
+      service
+        .get('/users', { params: { page: 1 }, headers: { 'Accept-Language': 'ar' } })
+        .subscribe();
+
+      const requests = controller.match((req) => req.url === `${baseUrl}/users`);
+      expect(requests.length).toBe(3);
+      requests.forEach((req) => req.flush([]));
+    });
+
+    it('should send separate requests for different options', () => {
+      service.get('/users', { retry: { maxRetries: 1 } }).subscribe();
+      service.get('/users', { retry: { maxRetries: 1 } }).subscribe();
+      service.get('/users', { retry: false }).subscribe();
+      service.get('/users', { context: new HttpContext().set(RETRY_CONFIG, false) }).subscribe();
+
+      const requests = controller.match(`${baseUrl}/users`);
+      expect(requests.length).toBe(3);
+      requests.forEach((req) => req.flush([]));
+    });
+
+    it('should release the request once it completes', () => {
+      service.get('/users').subscribe();
+      controller.expectOne(`${baseUrl}/users`).flush([]);
+
+      service.get('/users').subscribe();
+      controller.expectOne(`${baseUrl}/users`).flush([]);
+    });
+
+    it('should not share when dedupe is false', () => {
+      service.get('/users').subscribe();
+      service.get('/users', { dedupe: false }).subscribe();
+
+      const requests = controller.match(`${baseUrl}/users`);
+      expect(requests.length).toBe(2);
+      requests.forEach((req) => req.flush([]));
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel the request and complete without emitting when the signal aborts', () => {
+      const abort = new AbortController();
+      let emitted = false;
+      let completed = false;
+      service
+        .get('/users', { signal: abort.signal })
+        .subscribe({ next: () => (emitted = true), complete: () => (completed = true) });
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      abort.abort();
+
+      expect(req.cancelled).toBeTrue();
+      expect(emitted).toBeFalse();
+      expect(completed).toBeTrue();
+    });
+
+    it('should not send a request when the signal aborted before subscribing', () => {
+      const abort = new AbortController();
+      const request$ = service.post('/users', {}, { signal: abort.signal });
+      abort.abort();
+
+      request$.subscribe();
+
+      controller.expectNone(`${baseUrl}/users`);
+    });
+
+    it('should keep a shared request alive for the other subscribers', () => {
+      const abort = new AbortController();
+      let result: unknown;
+      service.get('/users', { signal: abort.signal }).subscribe();
+      service.get('/users').subscribe((users) => (result = users));
+
+      const req = controller.expectOne(`${baseUrl}/users`);
+      abort.abort();
+      req.flush([]);
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('cache', () => {
+    const policy = { ttl: 1000, staleWhileRevalidate: 1000 };
+    let now: number;
+
+    beforeEach(() => {
+      now = 0;
+      spyOn(Date, 'now').and.callFake(() => now);
+    });
+
+    function load(options = { cache: policy }): unknown[] {
+      const values: unknown[] = [];
+      service.get('/links', options).subscribe((value) => values.push(value));
+      return values;
+    }
+
+    it('should serve a fresh response from the cache without a request', () => {
+      load();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      now = 999;
+      expect(load()).toEqual([['a']]);
+      controller.expectNone(`${baseUrl}/links`);
+    });
+
+    it('should emit a stale response first and then the revalidated one', () => {
+      load();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      now = 1500;
+      const values = load();
+      expect(values).toEqual([['a']]);
+
+      controller.expectOne(`${baseUrl}/links`).flush(['b']);
+      expect(values).toEqual([['a'], ['b']]);
+    });
+
+    it('should keep the stale response when revalidation fails', () => {
+      load();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      now = 1500;
+      let failed = false;
+      const values: unknown[] = [];
+      service.get('/links', { cache: policy }).subscribe({
+        next: (value) => values.push(value),
+        error: () => (failed = true),
+      });
+      controller.expectOne(`${baseUrl}/links`).flush(null, { status: 500, statusText: 'Error' });
+
+      expect(values).toEqual([['a']]);
+      expect(failed).toBeFalse();
+    });
+
+    it('should fetch again once the stale-while-revalidate window has passed', () => {
+      load();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      now = 2000;
+      const values = load();
+      expect(values).toEqual([]);
+
+      controller.expectOne(`${baseUrl}/links`).flush(['b']);
+      expect(values).toEqual([['b']]);
+    });
+
+    it('should not cache requests without the cache option', () => {
+      service.get('/links').subscribe();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      expect(TestBed.inject(ApiCacheService).size).toBe(0);
+    });
+
+    it('should invalidate reads of a resource after a successful mutation', () => {
+      service.get('/users/1', { cache: policy }).subscribe();
+      controller.expectOne(`${baseUrl}/users/1`).flush({ id: '1' });
+
+      service.put('/users/1', { name: 'Jane' }).subscribe();
+      controller.expectOne(`${baseUrl}/users/1`).flush({ id: '1', name: 'Jane' });
+
+      service.get('/users/1', { cache: policy }).subscribe();
+      controller.expectOne(`${baseUrl}/users/1`).flush({ id: '1', name: 'Jane' });
+    });
+
+    it('should keep other resources cached after a mutation', () => {
+      load();
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      service.delete('/users/1').subscribe();
+      controller.expectOne(`${baseUrl}/users/1`).flush(null);
+
+      expect(load()).toEqual([['a']]);
+    });
+  });
+
+  describe('call()', () => {
+    const user = { id: '42', name: 'Jane', email: 'jane@example.com' };
+
+    it('should resolve path params and return the declared response', () => {
+      let result: unknown;
+      service.call(API_ENDPOINTS.users.byId, { id: '42' }).subscribe((value) => (result = value));
+
+      const req = controller.expectOne(`${baseUrl}/users/42`);
+      expect(req.request.method).toBe('GET');
+      req.flush(user);
+
+      expect(result).toEqual(user);
+    });
+
+    it('should encode path params', () => {
+      service.call(API_ENDPOINTS.users.byId, { id: 'a/b c' }).subscribe();
+
+      controller.expectOne(`${baseUrl}/users/a%2Fb%20c`).flush(user);
+    });
+
+    it('should send the query as params', () => {
+      service.call(API_ENDPOINTS.users.list, { query: { search: 'jo' } }).subscribe();
+
+      const req = controller.expectOne((r) => r.url === `${baseUrl}/users`);
+      expect(req.request.params.get('search')).toBe('jo');
+      req.flush([]);
+    });
+
+    it('should send the body with the declared method', () => {
+      const body = { name: 'Jane', email: 'jane@example.com' };
+      service.call(API_ENDPOINTS.users.updateProfile, { body }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users/profile`);
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual(body);
+      req.flush(user);
+    });
+
+    it('should pass request options through', () => {
+      service.call(API_ENDPOINTS.users.delete, { id: '1' }, { retry: false }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/users/1`);
+      expect(req.request.method).toBe('DELETE');
+      expect(req.request.context.get(RETRY_CONFIG)).toBeFalse();
+      req.flush(null);
+    });
+
+    it('should accept a parameterless definition in the HTTP methods', () => {
+      service.get(API_ENDPOINTS.users.profile).subscribe();
+
+      controller.expectOne(`${baseUrl}/users/profile`).flush({});
+    });
+  });
+
+  describe('schema validation', () => {
+    it('should validate call() responses against the definition schema', () => {
+      let error: AppError | undefined;
+      service.call(API_ENDPOINTS.users.byId, { id: '1' }).subscribe({ error: (e) => (error = e) });
+
+      controller.expectOne(`${baseUrl}/users/1`).flush({ id: 1, name: 'Jane' });
+
+      expect(error?.code).toBe('CONTRACT_VIOLATION');
+      expect(error?.category).toBe('contract');
+      expect(error?.context?.contractViolations?.map((v) => v.path)).toEqual(['$.id', '$.email']);
+      expect(TestBed.inject(ErrorLoggingService).log).toHaveBeenCalledWith(error!);
+    });
+
+    it('should pass valid responses through', () => {
+      const user = { id: '1', name: 'Jane', email: 'jane@example.com' };
+      let result: unknown;
+      service.call(API_ENDPOINTS.users.byId, { id: '1' }).subscribe((value) => (result = value));
+
+      controller.expectOne(`${baseUrl}/users/1`).flush(user);
+
+      expect(result).toEqual(user);
+    });
+
+    it('should validate against the schema option of the HTTP methods', () => {
+      let error: AppError | undefined;
+      service
+        .get('/links', { schema: schema.array(schema.string()) })
+        .subscribe({ error: (e) => (error = e) });
+
+      controller.expectOne(`${baseUrl}/links`).flush(['a', 2]);
+
+      expect(error?.category).toBe('contract');
+    });
+
+    it('should let the schema option override the definition schema', () => {
+      let result: unknown;
+      service
+        .call(API_ENDPOINTS.users.byId, { id: '1' }, { schema: schema.unknown() })
+        .subscribe((value) => (result = value));
+
+      controller.expectOne(`${baseUrl}/users/1`).flush({ id: '1' });
+
+      expect(result).toEqual({ id: '1' });
+    });
+  });
+
+  describe('envelope unwrapping', () => {
+    it('should emit the data of a successful envelope', () => {
+      let result: unknown;
+      service.getData('/links').subscribe((value) => (result = value));
+
+      controller.expectOne(`${baseUrl}/links`).flush({ success: true, data: ['a'] });
+
+      expect(result).toEqual(['a']);
+    });
+
+    it('should fail with the server message of an unsuccessful envelope', () => {
+      let error: AppError | undefined;
+      service.postData('/links', {}).subscribe({ error: (e) => (error = e) });
+
+      controller.expectOne(`${baseUrl}/links`).flush({
+        success: false,
+        error: { code: 'LINK_EXISTS', message: 'Link already exists' },
+      });
+
+      expect(error?.code).toBe('LINK_EXISTS');
+      expect(error?.userMessage).toBe('Link already exists');
+      expect(error?.category).toBe('server');
+    });
+
+    it('should fail with a contract error when the body is not an envelope', () => {
+      let error: AppError | undefined;
+      service.getData('/links').subscribe({ error: (e) => (error = e) });
+
+      controller.expectOne(`${baseUrl}/links`).flush(['a']);
+
+      expect(error?.category).toBe('contract');
+    });
+
+    it('should show the envelope message when asked to', () => {
+      const success = spyOn(TestBed.inject(ToastService), 'success');
+      service.putData('/links/1', {}, { showSuccessMessage: true }).subscribe();
+
+      controller
+        .expectOne(`${baseUrl}/links/1`)
+        .flush({ success: true, data: null, message: 'Link saved' });
+
+      expect(success).toHaveBeenCalledWith('Link saved');
+    });
+
+    it('should not show the envelope message by default', () => {
+      const success = spyOn(TestBed.inject(ToastService), 'success');
+      service.deleteData('/links/1').subscribe();
+
+      controller
+        .expectOne(`${baseUrl}/links/1`)
+        .flush({ success: true, data: null, message: 'Link deleted' });
+
+      expect(success).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('file transfer', () => {
+    const file = new Blob(['0123456789'], { type: 'text/plain' });
+
+    it('should upload a multipart body with the extra fields and report progress', () => {
+      const events: UploadProgress<unknown>[] = [];
+      service
+        .upload('/attachments', file, { fileName: 'notes.txt', fields: { type: 'id-card' } })
+        .subscribe((event) => events.push(event));
+
+      const req = controller.expectOne(`${baseUrl}/attachments`);
+      const body = req.request.body as FormData;
+      expect(req.request.method).toBe('POST');
+      expect(body.get('type')).toBe('id-card');
+      expect((body.get('file') as File).name).toBe('notes.txt');
+
+      req.event({ type: HttpEventType.UploadProgress, loaded: 5, total: 10 });
+      req.flush({ id: 'a1' });
+
+      expect(events.map((e) => [e.state, e.progress])).toEqual([
+        ['uploading', 50],
+        ['done', 100],
+      ]);
+      expect(events[1].response).toEqual({ id: 'a1' });
+    });
+
+    it('should send a FormData body unchanged', () => {
+      const formData = new FormData();
+      formData.append('note', 'hello');
+      service.upload('/attachments', formData, { method: 'PUT' }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/attachments`);
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toBe(formData);
+      req.flush({});
+    });
+
+    it('should upload in chunks with a Content-Range header per chunk', () => {
+      const events: UploadProgress<unknown>[] = [];
+      service
+        .uploadChunked('/uploads', file, { chunkSize: 4, fileName: 'notes.txt' })
+        .subscribe((event) => events.push(event));
+
+      const start = controller.expectOne(`${baseUrl}/uploads`);
+      expect(start.request.body).toEqual(
+        jasmine.objectContaining({ fileName: 'notes.txt', fileSize: 10, chunkSize: 4 })
+      );
+      start.flush({ uploadId: 'u1', uploadedBytes: 0 });
+
+      for (const range of ['bytes 0-3/10', 'bytes 4-7/10']) {
+        const chunk = controller.expectOne(`${baseUrl}/uploads/u1`);
+        expect(chunk.request.headers.get('Content-Range')).toBe(range);
+        chunk.flush(null);
+      }
+
+      const last = controller.expectOne(`${baseUrl}/uploads/u1`);
+      expect(last.request.headers.get('Content-Range')).toBe('bytes 8-9/10');
+      last.flush({ id: 'f1' });
+
+      const done = events[events.length - 1];
+      expect(done.state).toBe('done');
+      expect(done.response).toEqual({ id: 'f1' });
+      expect(events.every((event) => event.uploadId === 'u1')).toBeTrue();
+    });
+
+    it('should resume a chunked upload from the bytes stored by the server', () => {
+      service.uploadChunked('/uploads', file, { chunkSize: 4, uploadId: 'u1' }).subscribe();
+
+      const session = controller.expectOne(`${baseUrl}/uploads/u1`);
+      expect(session.request.method).toBe('GET');
+      session.flush({ uploadId: 'u1', uploadedBytes: 8 });
+
+      const chunk = controller.expectOne(`${baseUrl}/uploads/u1`);
+      expect(chunk.request.headers.get('Content-Range')).toBe('bytes 8-9/10');
+      chunk.flush({ id: 'f1' });
+    });
+
+    it('should download a blob with the name from Content-Disposition', () => {
+      let download: ApiDownload | undefined;
+      service.download('/letters/1/pdf').subscribe((value) => (download = value));
+
+      const req = controller.expectOne(`${baseUrl}/letters/1/pdf`);
+      expect(req.request.responseType).toBe('blob');
+      req.flush(new Blob(['%PDF']), {
+        headers: new HttpHeaders({
+          'Content-Disposition': 'attachment; filename="letter.pdf"',
+          'Content-Type': 'application/pdf',
+        }),
+      });
+
+      expect(download?.fileName).toBe('letter.pdf');
+      expect(download?.contentType).toBe('application/pdf');
+    });
+
+    it('should download with POST when a body is given', () => {
+      service.download('/reports', { method: 'POST', body: { year: 2024 } }).subscribe();
+
+      const req = controller.expectOne(`${baseUrl}/reports`);
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ year: 2024 });
+      req.flush(new Blob());
+    });
+  });
+
+  describe('offline queue', () => {
+    let enqueue: jasmine.Spy;
+
+    beforeEach(() => {
+      enqueue = spyOn(TestBed.inject(OfflineQueueService), 'enqueue').and.callFake(
+        async (request) => ({ ...request, id: 1, userId: null, createdAt: 0 })
+      );
+    });
+
+    function failWithNetworkError(url: string) {
+      controller.expectOne(url).error(new ProgressEvent('error'), { status: 0 });
+    }
+
+    it('should queue an opted-in mutation that failed for lack of network', async () => {
+      const info = spyOn(TestBed.inject(ToastService), 'info');
+      const result = new Promise<AppError>((resolve) =>
+        service
+          .put('/users/1', { name: 'Ada' }, { offline: { label: 'Profile' } })
+          .subscribe({ error: resolve })
+      );
+
+      failWithNetworkError(`${baseUrl}/users/1`);
+      const error = await result;
+
+      expect(error.code).toBe('REQUEST_QUEUED');
+      expect(enqueue).toHaveBeenCalledWith(
+        jasmine.objectContaining({
+          method: 'PUT',
+          url: `${baseUrl}/users/1`,
+          body: { name: 'Ada' },
+          label: 'Profile',
+          resource: `${baseUrl}/users`,
+        })
+      );
+      expect(info).toHaveBeenCalled();
+    });
+
+    it('should not queue a mutation without the offline option', () => {
+      let error: unknown;
+      service.put('/users/1', {}).subscribe({ error: (e) => (error = e) });
+
+      failWithNetworkError(`${baseUrl}/users/1`);
+
+      expect(enqueue).not.toHaveBeenCalled();
+      expect((error as AppError).code).not.toBe('REQUEST_QUEUED');
+    });
+
+    it('should not queue a mutation the server rejected', () => {
+      service.put('/users/1', {}, { offline: true }).subscribe({ error: () => undefined });
+
+      controller
+        .expectOne(`${baseUrl}/users/1`)
+        .flush(null, { status: 500, statusText: 'Server Error' });
+
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should not queue a FormData body', () => {
+      service.post('/attachments', new FormData(), { offline: true }).subscribe({
+        error: () => undefined,
+      });
+
+      failWithNetworkError(`${baseUrl}/attachments`);
+
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
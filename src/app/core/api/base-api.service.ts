@@ -6,15 +6,78 @@
  *
  * Provides:
  * - Typed HTTP methods (get, post, put, delete)
- * - Centralized API URL management
+ * - Contract-typed calls for API_ENDPOINTS definitions (call)
+ * - Centralized API URL management, with named backends (API targets)
  * - Automatic token injection (via Keycloak interceptor)
+ * - Automatic retry of transient failures (via retry interceptor)
+ * - Default and per-request timeouts (via timeout interceptor)
+ * - De-duplication of identical in-flight GET requests
+ * - Opt-in response caching with invalidation on mutations
+ * - Optional runtime validation of responses against schemas
+ * - ApiResponse envelope unwrapping (getData, postData, ...)
+ * - Multipart and chunked/resumable uploads with progress, blob downloads
+ * - Offline outbox for mutations sent without network (replayed on reconnect)
+ * - Cancellation through AbortSignal
  * - Type-safe responses
  */
 
-import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { environment } from '../../../environments/environment';
+import { Injectable, inject } from '@angular/core';
+import {
+  HttpClient,
+  HttpContext,
+  HttpEvent,
+  HttpEventType,
+  HttpHeaders,
+  HttpParams,
+  HttpRequest,
+} from '@angular/common/http';
+import {
+  EMPTY,
+  Observable,
+  concat,
+  defer,
+  from,
+  fromEvent,
+  of,
+  takeUntil,
+  throwError,
+} from 'rxjs';
+import { catchError, finalize, map, mergeMap, share, switchMap, tap } from 'rxjs/operators';
+import {
+  ApiFailureEnvelope,
+  AppError,
+  ErrorLoggingService,
+  ErrorService,
+  REQUEST_TIMEOUT,
+  RETRY_CONFIG,
+  RetryConfig,
+} from '../error';
+import { ToastService } from '../notifications';
+import { REQUEST_ENDPOINT } from '../performance';
+import { copyHttpContext } from './http-context';
+import { ApiCacheService } from './api-cache.service';
+import { ApiTargetName, getApiTargetUrl, resolveApiTarget } from './api-targets';
+import { ApiCachePolicy, DEFAULT_CACHE_POLICY } from './models/api-cache.model';
+import { ApiError, ApiResponse } from './models/api-response.model';
+import {
+  ApiDownload,
+  ApiDownloadOptions,
+  ApiUploadOptions,
+  ChunkedUploadOptions,
+  ChunkedUploadSession,
+  DEFAULT_CHUNK_SIZE,
+  UploadProgress,
+} from './models/file-transfer.model';
+import { QueueableMethod } from './models/offline-queue.model';
+import { parseContentDispositionFileName } from './file-transfer';
+import { OfflineQueueService } from './offline-queue.service';
+import {
+  EndpointDefinitionBase,
+  EndpointRequest,
+  EndpointResponse,
+  PathParamValue,
+} from './endpoint-definition';
+import { Schema, validateSchema } from './schema';
 
 /**
  * HTTP request options
@@ -26,6 +89,145 @@ export interface ApiRequestOptions {
   responseType?: 'json';
   reportProgress?: boolean;
   withCredentials?: boolean;
+  context?: HttpContext;
+  /**
+   * Retry behaviour for transient failures (408/429/502/503/504).
+   * Pass `false` to opt out, or a partial config to override
+   * e.g. `{ maxRetries: 5 }`. Only idempotent methods are retried by default.
+   */
+  retry?: boolean | Partial<RetryConfig>;
+  /**
+   * Fail with an 'HTTP_TIMEOUT' AppError when nothing is received for this
+   * many milliseconds, per attempt when retried. Overrides DEFAULT_TIMEOUT and the
+   * API target's timeout; pass `false` to disable, e.g. for large downloads.
+   */
+  timeout?: number | false;
+  /**
+   * Share one underlying request among concurrent identical GETs
+   * (same URL, params, headers and options). Defaults to true; ignored for
+   * other methods.
+   */
+  dedupe?: boolean;
+  /**
+   * Cancels the request when aborted. The returned observable completes
+   * without emitting. See injectAbortSignal() for a component-scoped signal.
+   */
+  signal?: AbortSignal;
+  /**
+   * Serve GET responses from the client-side cache.
+   * Pass `true` for DEFAULT_CACHE_POLICY or a partial policy,
+   * e.g. `{ ttl: CACHE_TTL.long, staleWhileRevalidate: CACHE_TTL.medium }`.
+   * Ignored for other methods.
+   */
+  cache?: boolean | Partial<ApiCachePolicy>;
+  /**
+   * Validate the response body at runtime. A mismatch fails the request with
+   * a 'contract' AppError. call() uses the definition's schema by default.
+   */
+  schema?: Schema;
+  /**
+   * Envelope methods only: show the envelope `message` as a success toast
+   */
+  showSuccessMessage?: boolean;
+  /**
+   * Mutations only: when the network is unavailable (status 0), save the
+   * request in the offline outbox and replay it on reconnect. The call then
+   * fails with a 'REQUEST_QUEUED' AppError (severity 'info').
+   * Off by default: pass `true` only where the caller handles the queued
+   * error, or `{ label }` to also name the request in notifications.
+   */
+  offline?: boolean | { label?: string };
+  /**
+   * API target serving a path endpoint (default: environment.apiUrl).
+   * call() uses the definition's target by default.
+   */
+  target?: ApiTargetName;
+}
+
+/**
+ * Endpoint accepted by the HTTP methods: a path or a parameterless definition
+ */
+export type ApiEndpointRef = string | EndpointDefinitionBase;
+
+/**
+ * Arguments of call(): the request is optional when it has no required fields
+ */
+export type ApiCallArgs<E extends EndpointDefinitionBase> = {} extends EndpointRequest<E>
+  ? [request?: EndpointRequest<E>, options?: ApiRequestOptions]
+  : [request: EndpointRequest<E>, options?: ApiRequestOptions];
+
+/**
+ * A GET request in flight, with the options it was sent with
+ */
+interface InFlightRequest {
+  options?: ApiRequestOptions;
+  shared$: Observable<unknown>;
+}
+
+/**
+ * Options skipped when comparing in-flight requests: params and headers are
+ * part of the request key, the others only concern the subscriber
+ */
+const IGNORED_WHEN_SHARING: ReadonlySet<string> = new Set([
+  'params',
+  'headers',
+  'dedupe',
+  'signal',
+  'cache',
+  'showSuccessMessage',
+]);
+
+/**
+ * Options forwarded to HttpClient
+ */
+type HttpRequestOptions = Omit<
+  ApiRequestOptions,
+  | 'retry'
+  | 'timeout'
+  | 'dedupe'
+  | 'signal'
+  | 'cache'
+  | 'schema'
+  | 'showSuccessMessage'
+  | 'offline'
+  | 'target'
+>;
+
+/**
+ * Response type with the ApiResponse envelope removed
+ */
+export type UnwrappedResponse<R> = R extends ApiResponse<infer D> ? D : R;
+
+/**
+ * Compare two request option values: plain objects (retry configs, ...) by
+ * content, HttpContexts by their tokens, anything else by reference
+ */
+function isSameOptionValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (a instanceof HttpContext && b instanceof HttpContext) {
+    const tokens = [...a.keys()];
+    return (
+      tokens.length === [...b.keys()].length &&
+      tokens.every((token) => b.has(token) && a.get(token) === b.get(token))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (Object.getPrototypeOf(value) === Object.prototype || Array.isArray(value))
+  );
 }
 
 @Injectable({
@@ -33,9 +235,20 @@ export interface ApiRequestOptions {
 })
 export class BaseApiService {
   /**
-   * Base API URL from environment configuration
+   * Base API URL from environment configuration (the default API target)
    */
-  protected readonly baseUrl: string = environment.apiUrl;
+  protected readonly baseUrl: string = getApiTargetUrl();
+
+  /**
+   * Shared observables of GET requests currently in flight, keyed by request
+   */
+  private readonly inFlight = new Map<string, InFlightRequest>();
+
+  private readonly cache = inject(ApiCacheService);
+  private readonly errorService = inject(ErrorService);
+  private readonly loggingService = inject(ErrorLoggingService);
+  private readonly toastService = inject(ToastService);
+  private readonly offlineQueue = inject(OfflineQueueService);
 
   constructor(private http: HttpClient) {}
 
@@ -49,9 +262,24 @@ export class BaseApiService {
    * @example
    * this.apiService.get<User[]>('/users')
    * this.apiService.get<User>('/users/123')
+   * this.apiService.get<User>('/users/123', { retry: { maxRetries: 5 } })
+   * this.apiService.get<User>('/users/123', { signal: this.abortSignal })
+   * this.apiService.get<Link[]>('/links', { cache: { ttl: CACHE_TTL.long } })
    */
-  get<T>(endpoint: string, options?: ApiRequestOptions): Observable<T> {
-    return this.http.get<T>(this.buildUrl(endpoint), options);
+  get<T>(endpoint: ApiEndpointRef, options?: ApiRequestOptions): Observable<T> {
+    const url = this.buildUrl(endpoint, options?.target);
+    const key = this.buildRequestKey('GET', url, options);
+    const request = () =>
+      this.withValidation('GET', url, this.http.get<T>(url, this.buildHttpOptions(options)), options);
+
+    let request$ =
+      options?.dedupe === false ? request() : this.shareInFlight(key, options, request);
+
+    if (options?.cache) {
+      request$ = this.withCache(key, url, request$, options.cache);
+    }
+
+    return this.withCancellation(request$, options?.signal);
   }
 
   /**
@@ -65,8 +293,26 @@ export class BaseApiService {
    * @example
    * this.apiService.post<User>('/users', { name: 'John', email: 'john@example.com' })
    */
-  post<T>(endpoint: string, body: any, options?: ApiRequestOptions): Observable<T> {
-    return this.http.post<T>(this.buildUrl(endpoint), body, options);
+  post<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    const url = this.buildUrl(endpoint, options?.target);
+    return this.withCancellation(
+      this.withOfflineQueue(
+        'POST',
+        url,
+        body,
+        this.withInvalidation(
+          url,
+          this.withValidation(
+            'POST',
+            url,
+            this.http.post<T>(url, body, this.buildHttpOptions(options)),
+            options
+          )
+        ),
+        options
+      ),
+      options?.signal
+    );
   }
 
   /**
@@ -80,8 +326,26 @@ export class BaseApiService {
    * @example
    * this.apiService.put<User>('/users/123', { name: 'John Updated' })
    */
-  put<T>(endpoint: string, body: any, options?: ApiRequestOptions): Observable<T> {
-    return this.http.put<T>(this.buildUrl(endpoint), body, options);
+  put<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    const url = this.buildUrl(endpoint, options?.target);
+    return this.withCancellation(
+      this.withOfflineQueue(
+        'PUT',
+        url,
+        body,
+        this.withInvalidation(
+          url,
+          this.withValidation(
+            'PUT',
+            url,
+            this.http.put<T>(url, body, this.buildHttpOptions(options)),
+            options
+          )
+        ),
+        options
+      ),
+      options?.signal
+    );
   }
 
   /**
@@ -95,8 +359,26 @@ export class BaseApiService {
    * @example
    * this.apiService.patch<User>('/users/123', { name: 'John' })
    */
-  patch<T>(endpoint: string, body: any, options?: ApiRequestOptions): Observable<T> {
-    return this.http.patch<T>(this.buildUrl(endpoint), body, options);
+  patch<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    const url = this.buildUrl(endpoint, options?.target);
+    return this.withCancellation(
+      this.withOfflineQueue(
+        'PATCH',
+        url,
+        body,
+        this.withInvalidation(
+          url,
+          this.withValidation(
+            'PATCH',
+            url,
+            this.http.patch<T>(url, body, this.buildHttpOptions(options)),
+            options
+          )
+        ),
+        options
+      ),
+      options?.signal
+    );
   }
 
   /**
@@ -110,17 +392,291 @@ export class BaseApiService {
    * this.apiService.delete<void>('/users/123')
    * this.apiService.delete<{ success: boolean }>('/users/123')
    */
-  delete<T>(endpoint: string, options?: ApiRequestOptions): Observable<T> {
-    return this.http.delete<T>(this.buildUrl(endpoint), options);
+  delete<T>(endpoint: ApiEndpointRef, options?: ApiRequestOptions): Observable<T> {
+    const url = this.buildUrl(endpoint, options?.target);
+    return this.withCancellation(
+      this.withOfflineQueue(
+        'DELETE',
+        url,
+        null,
+        this.withInvalidation(
+          url,
+          this.withValidation(
+            'DELETE',
+            url,
+            this.http.delete<T>(url, this.buildHttpOptions(options)),
+            options
+          )
+        ),
+        options
+      ),
+      options?.signal
+    );
+  }
+
+  /**
+   * Call an endpoint definition with full type checking
+   *
+   * Path params, body, query params and the response type all come from
+   * the definition in API_ENDPOINTS.
+   *
+   * @param endpoint - Endpoint definition
+   * @param request - Path params, plus `body` and `query` when the endpoint declares them
+   * @param options - Request options
+   * @returns Observable of the declared response type
+   *
+   * @example
+   * this.apiService.call(API_ENDPOINTS.users.byId, { id: '123' })
+   * this.apiService.call(API_ENDPOINTS.users.update, { id: '123', body: { name: 'John' } })
+   * this.apiService.call(API_ENDPOINTS.users.list, { query: { search: 'jo' } })
+   */
+  call<E extends EndpointDefinitionBase>(
+    endpoint: E,
+    ...[request, options]: ApiCallArgs<E>
+  ): Observable<EndpointResponse<E>> {
+    const { body, query, ...pathParams } = (request ?? {}) as {
+      body?: unknown;
+      query?: ApiRequestOptions['params'];
+    } & Record<string, PathParamValue>;
+
+    const path = endpoint.resolve(pathParams);
+    const requestOptions: ApiRequestOptions = {
+      schema: endpoint.responseSchema,
+      target: endpoint.target,
+      ...options,
+      // Group timings by the path template rather than the resolved path
+      context: copyHttpContext(options?.context).set(REQUEST_ENDPOINT, endpoint.path),
+      ...(query ? { params: query } : {}),
+    };
+
+    switch (endpoint.method) {
+      case 'GET':
+        return this.get<EndpointResponse<E>>(path, requestOptions);
+      case 'POST':
+        return this.post<EndpointResponse<E>>(path, body, requestOptions);
+      case 'PUT':
+        return this.put<EndpointResponse<E>>(path, body, requestOptions);
+      case 'PATCH':
+        return this.patch<EndpointResponse<E>>(path, body, requestOptions);
+      case 'DELETE':
+        return this.delete<EndpointResponse<E>>(path, requestOptions);
+    }
+  }
+
+  /**
+   * HTTP GET request returning the `data` of an ApiResponse envelope
+   *
+   * `success: false` envelopes (including the ApiError shape) fail the
+   * request with an AppError built by ErrorService.
+   *
+   * @example
+   * this.apiService.getData<User>('/users/123') // Observable<User>
+   */
+  getData<T>(endpoint: ApiEndpointRef, options?: ApiRequestOptions): Observable<T> {
+    return this.unwrapEnvelope(
+      'GET',
+      endpoint,
+      this.get<ApiResponse<T> | ApiError>(endpoint, options),
+      options
+    );
+  }
+
+  /**
+   * HTTP POST request returning the `data` of an ApiResponse envelope
+   *
+   * @example
+   * this.apiService.postData<User>('/users', dto, { showSuccessMessage: true })
+   */
+  postData<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    return this.unwrapEnvelope(
+      'POST',
+      endpoint,
+      this.post<ApiResponse<T> | ApiError>(endpoint, body, options),
+      options
+    );
+  }
+
+  /**
+   * HTTP PUT request returning the `data` of an ApiResponse envelope
+   */
+  putData<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    return this.unwrapEnvelope(
+      'PUT',
+      endpoint,
+      this.put<ApiResponse<T> | ApiError>(endpoint, body, options),
+      options
+    );
+  }
+
+  /**
+   * HTTP PATCH request returning the `data` of an ApiResponse envelope
+   */
+  patchData<T>(endpoint: ApiEndpointRef, body: any, options?: ApiRequestOptions): Observable<T> {
+    return this.unwrapEnvelope(
+      'PATCH',
+      endpoint,
+      this.patch<ApiResponse<T> | ApiError>(endpoint, body, options),
+      options
+    );
+  }
+
+  /**
+   * HTTP DELETE request returning the `data` of an ApiResponse envelope
+   */
+  deleteData<T>(endpoint: ApiEndpointRef, options?: ApiRequestOptions): Observable<T> {
+    return this.unwrapEnvelope(
+      'DELETE',
+      endpoint,
+      this.delete<ApiResponse<T> | ApiError>(endpoint, options),
+      options
+    );
+  }
+
+  /**
+   * Call an endpoint declared as `.returns<ApiResponse<T>>()` and unwrap `data`
+   *
+   * @example
+   * this.apiService.callData(API_ENDPOINTS.products.byId, { id }) // Observable<Product>
+   */
+  callData<E extends EndpointDefinitionBase>(
+    endpoint: E,
+    ...args: ApiCallArgs<E>
+  ): Observable<UnwrappedResponse<EndpointResponse<E>>> {
+    const [, options] = args;
+    return this.unwrapEnvelope(
+      endpoint.method,
+      endpoint,
+      this.call(endpoint, ...args) as Observable<ApiResponse<UnwrappedResponse<EndpointResponse<E>>>>,
+      options
+    );
+  }
+
+  /**
+   * Upload a file as multipart/form-data, reporting progress
+   *
+   * Emits UploadProgress events; the last one has `state: 'done'` and the
+   * server response. Passing a FormData sends it unchanged.
+   *
+   * @example
+   * this.apiService
+   *   .upload<Attachment>(API_ENDPOINTS.requests.attachments(id), file, { fields: { type: 'id-card' } })
+   *   .subscribe((event) => this.progress.set(event.progress));
+   */
+  upload<T>(
+    endpoint: ApiEndpointRef,
+    file: Blob | FormData,
+    options: ApiUploadOptions = {}
+  ): Observable<UploadProgress<T>> {
+    const url = this.buildUrl(endpoint, options?.target);
+    const { method = 'POST', fieldName = 'file', fileName, fields, ...requestOptions } = options;
+    const body = file instanceof FormData ? file : this.buildFormData(file, fieldName, fileName, fields);
+    const size = file instanceof FormData ? 0 : file.size;
+
+    const request$ = this.http
+      .request<T>(method, url, {
+        ...this.buildHttpOptions(requestOptions),
+        body,
+        reportProgress: true,
+        observe: 'events',
+      })
+      .pipe(
+        mergeMap((event) => this.toUploadProgress(event, 0, size)),
+        mergeMap((progress) => this.validateUpload(method, url, progress, requestOptions))
+      );
+
+    return this.withCancellation(this.withUploadInvalidation(url, request$), options.signal);
+  }
+
+  /**
+   * Upload a large file in chunks, reporting progress
+   *
+   * Protocol:
+   * 1. `POST {endpoint}` with `{ fileName, fileSize, contentType, chunkSize, ...metadata }`
+   *    returns a ChunkedUploadSession (`GET {endpoint}/{uploadId}` when resuming)
+   * 2. Each chunk is sent as `PUT {endpoint}/{uploadId}` with a
+   *    `Content-Range: bytes start-end/size` header
+   * 3. The response to the last chunk is the upload result
+   *
+   * Every event carries `uploadId`; pass it back as `options.uploadId` to
+   * resume an interrupted upload from the bytes the server already has.
+   * Chunks are PUTs, so transient failures are retried per chunk.
+   */
+  uploadChunked<T>(
+    endpoint: ApiEndpointRef,
+    file: Blob,
+    options: ChunkedUploadOptions = {}
+  ): Observable<UploadProgress<T>> {
+    const url = this.buildUrl(endpoint, options?.target);
+    const { chunkSize = DEFAULT_CHUNK_SIZE, uploadId, metadata, fileName, ...requestOptions } = options;
+    const httpOptions = this.buildHttpOptions(requestOptions);
+
+    const session$ = uploadId
+      ? this.http.get<ChunkedUploadSession>(`${url}/${encodeURIComponent(uploadId)}`, httpOptions)
+      : this.http.post<ChunkedUploadSession>(
+          url,
+          {
+            ...metadata,
+            fileName: fileName ?? (file instanceof File ? file.name : 'blob'),
+            fileSize: file.size,
+            contentType: file.type || 'application/octet-stream',
+            chunkSize,
+          },
+          httpOptions
+        );
+
+    const request$ = session$.pipe(
+      switchMap((session) => this.uploadChunks<T>(url, file, session, chunkSize, requestOptions))
+    );
+
+    return this.withCancellation(this.withUploadInvalidation(url, request$), options.signal);
+  }
+
+  /**
+   * Download a file as a Blob, with its name from Content-Disposition
+   *
+   * The server must list Content-Disposition in Access-Control-Expose-Headers
+   * for the name to be readable cross-origin. Use saveDownload() to save it.
+   *
+   * @example
+   * this.apiService
+   *   .download(API_ENDPOINTS.letters.pdf(id))
+   *   .subscribe((file) => saveDownload(file, 'letter.pdf'));
+   */
+  download(endpoint: ApiEndpointRef, options: ApiDownloadOptions = {}): Observable<ApiDownload> {
+    const url = this.buildUrl(endpoint, options?.target);
+    const { method = 'GET', body, ...requestOptions } = options;
+
+    const request$ = this.http
+      .request(method, url, {
+        ...this.buildHttpOptions(requestOptions),
+        body,
+        observe: 'response',
+        responseType: 'blob',
+      })
+      .pipe(
+        map((response) => ({
+          blob: response.body ?? new Blob(),
+          fileName: parseContentDispositionFileName(response.headers.get('Content-Disposition')),
+          contentType: response.headers.get('Content-Type'),
+        }))
+      );
+
+    return this.withCancellation(request$, options.signal);
   }
 
   /**
    * Build full URL from endpoint
    *
-   * @param endpoint - Relative endpoint or full URL
+   * @param endpoint - Relative endpoint, full URL or parameterless definition
+   * @param target - API target of a relative endpoint (default: the definition's target)
    * @returns Full URL
    */
-  protected buildUrl(endpoint: string): string {
+  protected buildUrl(endpoint: ApiEndpointRef, target?: ApiTargetName): string {
+    if (typeof endpoint !== 'string') {
+      target ??= endpoint.target;
+      endpoint = endpoint.resolve();
+    }
+
     // If endpoint is already a full URL, return as-is
     if (endpoint.startsWith('http://') || endpoint.startsWith('https://')) {
       return endpoint;
@@ -129,14 +685,536 @@ export class BaseApiService {
     // Ensure endpoint starts with /
     const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
 
-    // Combine baseUrl with endpoint
-    return `${this.baseUrl}${normalizedEndpoint}`;
+    // Combine the target's base URL with endpoint
+    return `${this.getBaseUrl(target)}${normalizedEndpoint}`;
+  }
+
+  /**
+   * Translate API request options into HttpClient options
+   *
+   * Request-level behaviour (retry, ...) is carried to the interceptors
+   * through HttpContext tokens, set on a copy of the caller's context.
+   */
+  protected buildHttpOptions(options?: ApiRequestOptions): HttpRequestOptions | undefined {
+    if (!options) {
+      return undefined;
+    }
+
+    const {
+      retry,
+      timeout,
+      dedupe,
+      signal,
+      cache,
+      schema,
+      showSuccessMessage,
+      offline,
+      target,
+      ...httpOptions
+    } = options;
+    const context = copyHttpContext(httpOptions.context);
+
+    if (retry !== undefined && retry !== true) {
+      context.set(RETRY_CONFIG, retry);
+    }
+
+    if (timeout !== undefined) {
+      context.set(REQUEST_TIMEOUT, timeout);
+    }
+
+    return { ...httpOptions, context };
+  }
+
+  /**
+   * Share a single request among all subscribers that arrive while it is in flight
+   *
+   * Only requests with the same key and equivalent options are shared; a
+   * request with different options is sent on its own. The entry is
+   * registered on subscription and removed once the request completes,
+   * fails, or every subscriber has unsubscribed.
+   */
+  protected shareInFlight<T>(
+    key: string,
+    options: ApiRequestOptions | undefined,
+    request: () => Observable<T>
+  ): Observable<T> {
+    return defer(() => {
+      const existing = this.inFlight.get(key);
+      if (existing) {
+        return this.isSameRequest(existing.options, options)
+          ? (existing.shared$ as Observable<T>)
+          : request();
+      }
+
+      const shared$ = request().pipe(
+        finalize(() => {
+          if (this.inFlight.get(key)?.shared$ === shared$) {
+            this.inFlight.delete(key);
+          }
+        }),
+        share()
+      );
+
+      this.inFlight.set(key, { options, shared$ });
+      return shared$;
+    });
+  }
+
+  /**
+   * Build a stable key from method, URL, query params and headers
+   */
+  protected buildRequestKey(
+    method: string,
+    url: string,
+    options?: Pick<ApiRequestOptions, 'params' | 'headers'>
+  ): string {
+    const params = options?.params;
+    const headers = options?.headers;
+    let key = `${method} ${url}`;
+
+    if (params instanceof HttpParams) {
+      const sorted = new HttpParams({
+        fromObject: Object.fromEntries(
+          params
+            .keys()
+            .sort()
+            .map((name) => [name, params.getAll(name) ?? []])
+        ),
+      });
+      key += `?${sorted.toString()}`;
+    } else if (params) {
+      const query = Object.keys(params)
+        .sort()
+        .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+        .join('&');
+      key += `?${query}`;
+    }
+
+    if (headers) {
+      const normalized = headers instanceof HttpHeaders ? headers : new HttpHeaders(headers);
+      const entries = normalized
+        .keys()
+        .map((name) => name.toLowerCase())
+        .sort()
+        .map((name) => `${name}: ${(normalized.getAll(name) ?? []).join(', ')}`);
+      key += ` [${entries.join('; ')}]`;
+    }
+
+    return key;
+  }
+
+  /**
+   * Whether two sets of options produce the same request and response
+   */
+  protected isSameRequest(a?: ApiRequestOptions, b?: ApiRequestOptions): boolean {
+    const first: Record<string, unknown> = { ...a };
+    const second: Record<string, unknown> = { ...b };
+    const names = new Set([...Object.keys(first), ...Object.keys(second)]);
+
+    return [...names]
+      .filter((name) => !IGNORED_WHEN_SHARING.has(name))
+      .every((name) => isSameOptionValue(first[name], second[name]));
+  }
+
+  /**
+   * Serve a GET from cache, falling back to (and populating from) the network
+   *
+   * Fresh entries are returned without a request. Stale entries inside the
+   * stale-while-revalidate window are emitted first, followed by the
+   * revalidated response; a failed revalidation keeps the stale value.
+   */
+  protected withCache<T>(
+    key: string,
+    url: string,
+    request$: Observable<T>,
+    cache: true | Partial<ApiCachePolicy>
+  ): Observable<T> {
+    const policy: ApiCachePolicy = {
+      ...DEFAULT_CACHE_POLICY,
+      ...(cache === true ? {} : cache),
+    };
+    const resource = this.getResourcePath(url);
+
+    return defer(() => {
+      const fetch$ = request$.pipe(
+        tap((value) => this.cache.set(key, resource, value, policy))
+      );
+      const hit = this.cache.lookup<T>(key);
+
+      if (!hit) {
+        return fetch$;
+      }
+
+      if (!hit.stale) {
+        return of(hit.value);
+      }
+
+      return concat(of(hit.value), fetch$.pipe(catchError(() => EMPTY)));
+    });
+  }
+
+  /**
+   * Validate the response against options.schema
+   *
+   * A mismatch is reported through ErrorLoggingService and fails the
+   * request with a 'contract' AppError listing the offending paths.
+   */
+  protected withValidation<T>(
+    method: string,
+    url: string,
+    request$: Observable<T>,
+    options?: ApiRequestOptions
+  ): Observable<T> {
+    const schema = options?.schema;
+
+    if (!schema) {
+      return request$;
+    }
+
+    return request$.pipe(
+      map((body) => {
+        const violations = validateSchema(schema, body);
+
+        if (violations.length > 0) {
+          this.fail(
+            this.errorService.createContractError(violations, {
+              url,
+              method,
+              responseBody: body,
+            })
+          );
+        }
+
+        return body;
+      })
+    );
+  }
+
+  /**
+   * Unwrap `data` from an ApiResponse envelope
+   *
+   * - Non-envelope bodies fail with a 'contract' AppError
+   * - `success: false` bodies fail with an AppError from ErrorService
+   * - The envelope message is shown as a toast when showSuccessMessage is set
+   */
+  protected unwrapEnvelope<T>(
+    method: string,
+    endpoint: ApiEndpointRef,
+    request$: Observable<ApiResponse<T> | ApiError>,
+    options?: ApiRequestOptions
+  ): Observable<T> {
+    return request$.pipe(
+      map((envelope) => {
+        const context = { url: this.buildUrl(endpoint, options?.target), method };
+
+        if (!this.isEnvelope(envelope)) {
+          this.fail(
+            this.errorService.createContractError(
+              [{ path: '$.success', message: 'Expected an ApiResponse envelope' }],
+              { ...context, responseBody: envelope }
+            )
+          );
+        }
+
+        if (!envelope.success) {
+          this.fail(this.errorService.createEnvelopeError(envelope as ApiFailureEnvelope, context));
+        }
+
+        const { data, message } = envelope as ApiResponse<T>;
+
+        if (options?.showSuccessMessage && message) {
+          this.toastService.success(message);
+        }
+
+        return data;
+      })
+    );
+  }
+
+  /**
+   * Check that a body has the ApiResponse / ApiError shape
+   */
+  private isEnvelope(body: unknown): body is ApiResponse<unknown> | ApiError {
+    return (
+      body !== null &&
+      typeof body === 'object' &&
+      typeof (body as { success?: unknown }).success === 'boolean'
+    );
+  }
+
+  /**
+   * Report an AppError created inside the pipeline and throw it
+   */
+  private fail(appError: AppError): never {
+    this.loggingService.log(appError);
+    throw appError;
+  }
+
+  /**
+   * Build the multipart body for an upload
+   */
+  protected buildFormData(
+    file: Blob,
+    fieldName: string,
+    fileName?: string,
+    fields?: Record<string, string | Blob>
+  ): FormData {
+    const formData = new FormData();
+
+    Object.entries(fields ?? {}).forEach(([name, value]) => formData.append(name, value));
+
+    if (fileName) {
+      formData.append(fieldName, file, fileName);
+    } else {
+      formData.append(fieldName, file);
+    }
+
+    return formData;
+  }
+
+  /**
+   * Send the chunks of a file from the offset stored by the server
+   */
+  protected uploadChunks<T>(
+    url: string,
+    file: Blob,
+    session: ChunkedUploadSession,
+    chunkSize: number,
+    options: Omit<ChunkedUploadOptions, 'chunkSize' | 'uploadId' | 'metadata' | 'fileName'>
+  ): Observable<UploadProgress<T>> {
+    const sessionUrl = `${url}/${encodeURIComponent(session.uploadId)}`;
+    const baseHeaders =
+      options.headers instanceof HttpHeaders ? options.headers : new HttpHeaders(options.headers ?? {});
+
+    const sendFrom = (start: number): Observable<UploadProgress<T>> => {
+      const end = Math.min(start + chunkSize, file.size);
+      const contentRange = file.size === 0 ? 'bytes */0' : `bytes ${start}-${end - 1}/${file.size}`;
+
+      return this.http
+        .request<T>('PUT', sessionUrl, {
+          ...this.buildHttpOptions(options),
+          headers: baseHeaders
+            .set('Content-Range', contentRange)
+            .set('Content-Type', 'application/octet-stream'),
+          body: file.slice(start, end),
+          reportProgress: true,
+          observe: 'events',
+        })
+        .pipe(
+          mergeMap((event) => this.toUploadProgress(event, start, file.size, session.uploadId)),
+          mergeMap((progress) => {
+            if (progress.state !== 'done' || end >= file.size) {
+              return of(progress);
+            }
+
+            // Chunk stored: report it as uploaded and continue with the next one
+            return concat(of({ ...this.progressFor(end, file.size), uploadId: session.uploadId }), sendFrom(end));
+          })
+        );
+    };
+
+    // Everything stored but no result received: resend the tail so the server answers
+    const offset =
+      session.uploadedBytes < file.size ? session.uploadedBytes : Math.max(0, file.size - chunkSize);
+
+    const resumed: UploadProgress<T> = {
+      ...this.progressFor(offset, file.size),
+      uploadId: session.uploadId,
+    };
+
+    return concat(of(resumed), sendFrom(offset)).pipe(
+      mergeMap((progress) => this.validateUpload('PUT', sessionUrl, progress, options))
+    );
+  }
+
+  /**
+   * Map an HttpClient event to upload progress
+   *
+   * @param offset - Bytes uploaded before this request (chunked uploads)
+   * @param size - Total bytes of the file, 0 when unknown
+   */
+  private toUploadProgress<T>(
+    event: HttpEvent<T>,
+    offset: number,
+    size: number,
+    uploadId?: string
+  ): Observable<UploadProgress<T>> {
+    switch (event.type) {
+      case HttpEventType.UploadProgress: {
+        const total = size || event.total || 0;
+        return of({ ...this.progressFor(offset + event.loaded, total), uploadId });
+      }
+      case HttpEventType.Response: {
+        const total = size || offset;
+        return of({
+          state: 'done',
+          progress: 100,
+          loaded: total,
+          total,
+          response: event.body ?? undefined,
+          uploadId,
+        });
+      }
+      default:
+        return EMPTY;
+    }
+  }
+
+  private progressFor(loaded: number, total: number): UploadProgress<never> {
+    return {
+      state: 'uploading',
+      progress: total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0,
+      loaded,
+      total,
+    };
+  }
+
+  /**
+   * Validate the response carried by the final upload event
+   */
+  private validateUpload<T>(
+    method: string,
+    url: string,
+    progress: UploadProgress<T>,
+    options?: ApiRequestOptions
+  ): Observable<UploadProgress<T>> {
+    if (progress.state !== 'done') {
+      return of(progress);
+    }
+
+    return this.withValidation(method, url, of(progress.response), options).pipe(
+      map(() => progress)
+    );
   }
 
   /**
-   * Get the base API URL
+   * Invalidate cached reads of the resource once an upload is done
    */
-  getBaseUrl(): string {
-    return this.baseUrl;
+  private withUploadInvalidation<T>(
+    url: string,
+    request$: Observable<UploadProgress<T>>
+  ): Observable<UploadProgress<T>> {
+    return request$.pipe(
+      tap((progress) => {
+        if (progress.state === 'done') {
+          this.cache.invalidateResource(this.getResourcePath(url));
+        }
+      })
+    );
+  }
+
+  /**
+   * Invalidate cached reads of the mutated resource once the mutation succeeds
+   */
+  protected withInvalidation<T>(url: string, request$: Observable<T>): Observable<T> {
+    return request$.pipe(
+      tap(() => this.cache.invalidateResource(this.getResourcePath(url)))
+    );
+  }
+
+  /**
+   * Save the mutation in the offline outbox when it fails for lack of network
+   *
+   * Only requests sent with the `offline` option are queued. The caller receives a 'REQUEST_QUEUED' AppError and an info toast is
+   * shown. If the outbox cannot be written, the network error is rethrown.
+   * FormData bodies cannot be persisted and are never queued.
+   */
+  protected withOfflineQueue<T>(
+    method: QueueableMethod,
+    url: string,
+    body: unknown,
+    request$: Observable<T>,
+    options?: ApiRequestOptions
+  ): Observable<T> {
+    if (!options?.offline || body instanceof FormData) {
+      return request$;
+    }
+
+    return request$.pipe(
+      catchError((error: unknown) => {
+        if (!this.offlineQueue.isOfflineError(error)) {
+          return throwError(() => error);
+        }
+
+        const request = new HttpRequest(method, url, body, {
+          headers:
+            options?.headers instanceof HttpHeaders
+              ? options.headers
+              : new HttpHeaders(options?.headers ?? {}),
+          params:
+            options?.params instanceof HttpParams
+              ? options.params
+              : new HttpParams({ fromObject: options?.params ?? {} }),
+        });
+
+        const queued$ = from(
+          this.offlineQueue.enqueue({
+            method,
+            url: request.urlWithParams,
+            body,
+            headers: Object.fromEntries(
+              request.headers.keys().map((key) => [key, request.headers.get(key) ?? ''])
+            ),
+            label: typeof options?.offline === 'object' ? options.offline.label : undefined,
+            resource: this.getResourcePath(url),
+          })
+        );
+
+        return queued$.pipe(
+          // Outbox unavailable: report the original network error
+          catchError(() => throwError(() => error)),
+          mergeMap(() => {
+            const queuedError = this.errorService.createQueuedError({
+              url,
+              method,
+              requestBody: body,
+            });
+            this.toastService.info(queuedError.userMessage);
+            return throwError(() => queuedError);
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Resource a URL belongs to: its first path segment below the API target URL
+   *
+   * @example
+   * getResourcePath(`${baseUrl}/users/123`) // `${baseUrl}/users`
+   */
+  protected getResourcePath(url: string): string {
+    const path = url.split('?')[0];
+    const target = resolveApiTarget(path);
+    const prefix = target
+      ? getApiTargetUrl(target.name).replace(/\/+$/, '')
+      : (path.match(/^https?:\/\/[^/]+/)?.[0] ?? '');
+    const [segment = ''] = path.slice(prefix.length).split('/').filter(Boolean);
+
+    return `${prefix}/${segment}`;
+  }
+
+  /**
+   * Stop the request (and its subscription) when the signal aborts
+   *
+   * The signal is checked on subscription, so an observable built before the
+   * signal aborted does not send the request.
+   */
+  protected withCancellation<T>(request$: Observable<T>, signal?: AbortSignal): Observable<T> {
+    if (!signal) {
+      return request$;
+    }
+
+    return defer(() =>
+      signal.aborted ? EMPTY : request$.pipe(takeUntil(fromEvent(signal, 'abort')))
+    );
+  }
+
+  /**
+   * Get the base URL of an API target (default: environment.apiUrl)
+   */
+  getBaseUrl(target?: ApiTargetName): string {
+    return target ? getApiTargetUrl(target) : this.baseUrl;
   }
 }
+
@@ -0,0 +1,260 @@
+/**
+ * Endpoint Definitions
+ *
+ * Typed contracts binding an endpoint to its HTTP method, path params,
+ * query params, body type and response type.
+ *
+ * Definitions stay callable with positional path params, so both styles work:
+ *
+ * @example
+ * const byId = endpoint.get('/users/:id').returns<User>();
+ *
+ * byId(42);                                    // '/users/42'
+ * this.apiService.call(byId, { id: 42 });      // Observable<User>
+ */
+
+import type { ApiTargetName } from './api-targets';
+import { Schema } from './schema';
+
+/**
+ * Supported HTTP methods
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Value accepted for a path parameter
+ */
+export type PathParamValue = string | number;
+
+/**
+ * Union of parameter names in a path template
+ *
+ * @example
+ * ExtractPathParams<'/users/:id/roles/:roleId'> // 'id' | 'roleId'
+ */
+export type ExtractPathParams<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | ExtractPathParams<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+/**
+ * Named path parameters of a path template
+ */
+export type PathParams<TPath extends string> = {
+  [K in ExtractPathParams<TPath>]: PathParamValue;
+};
+
+/**
+ * Positional path parameters of a path template, in order
+ */
+export type PathParamTuple<TPath extends string> =
+  TPath extends `${string}:${string}/${infer Rest}`
+    ? [PathParamValue, ...PathParamTuple<`/${Rest}`>]
+    : TPath extends `${string}:${string}`
+      ? [PathParamValue]
+      : [];
+
+/**
+ * Compile-time types carried by a definition
+ */
+export interface EndpointTypes<TResponse, TBody, TQuery> {
+  response: TResponse;
+  body: TBody;
+  query: TQuery;
+}
+
+/**
+ * Runtime part of a definition, shared by all endpoints
+ */
+export interface EndpointDefinitionBase {
+  readonly method: HttpMethod;
+  readonly path: string;
+  /** Schema the response is validated against at runtime */
+  readonly responseSchema?: Schema;
+  /** Backend serving the endpoint (default: environment.apiUrl) */
+  readonly target?: ApiTargetName;
+
+  /**
+   * Build the path from named params
+   */
+  resolve(params?: Record<string, PathParamValue>): string;
+}
+
+/**
+ * Typed endpoint definition
+ */
+export interface EndpointDefinition<
+  TPath extends string = string,
+  TResponse = unknown,
+  TBody = never,
+  TQuery = never,
+> extends EndpointDefinitionBase {
+  /**
+   * Build the path from positional params
+   */
+  (...params: PathParamTuple<TPath>): string;
+
+  readonly path: TPath;
+
+  /** Type-only marker, never set at runtime */
+  readonly __types?: EndpointTypes<TResponse, TBody, TQuery>;
+
+  resolve(params: PathParams<TPath>): string;
+
+  /**
+   * Declare the response type
+   */
+  returns<R>(): EndpointDefinition<TPath, R, TBody, TQuery>;
+
+  /**
+   * Declare the request body type
+   */
+  body<B>(): EndpointDefinition<TPath, TResponse, B, TQuery>;
+
+  /**
+   * Declare the query params type
+   */
+  query<Q>(): EndpointDefinition<TPath, TResponse, TBody, Q>;
+
+  /**
+   * Validate responses against a schema at runtime
+   */
+  validate(responseSchema: Schema): EndpointDefinition<TPath, TResponse, TBody, TQuery>;
+
+  /**
+   * Serve the endpoint from a named API target (see forTarget() for whole groups)
+   */
+  withTarget(target: ApiTargetName): EndpointDefinition<TPath, TResponse, TBody, TQuery>;
+}
+
+/**
+ * Response type of a definition
+ */
+export type EndpointResponse<E extends EndpointDefinitionBase> = E extends {
+  readonly __types?: EndpointTypes<infer R, unknown, unknown>;
+}
+  ? R
+  : unknown;
+
+/**
+ * Request body type of a definition
+ */
+export type EndpointBody<E extends EndpointDefinitionBase> = E extends {
+  readonly __types?: EndpointTypes<unknown, infer B, unknown>;
+}
+  ? B
+  : never;
+
+/**
+ * Request accepted by BaseApiService.call() for a definition:
+ * path params at the top level, plus `body` and `query` when declared
+ */
+export type EndpointRequest<E extends EndpointDefinitionBase> = E extends {
+  readonly path: infer P extends string;
+  readonly __types?: EndpointTypes<unknown, infer B, infer Q>;
+}
+  ? PathParams<P> & ([B] extends [never] ? {} : { body: B }) & ([Q] extends [never] ? {} : { query?: Q })
+  : never;
+
+/**
+ * Replace `:param` segments in a path template
+ */
+function fillPath(path: string, lookup: (name: string, index: number) => PathParamValue | undefined): string {
+  let index = 0;
+
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    const value = lookup(name, index++);
+
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Missing path parameter "${name}" for endpoint "${path}"`);
+    }
+
+    return encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Runtime configuration of a definition
+ */
+interface EndpointConfig {
+  method: HttpMethod;
+  path: string;
+  responseSchema?: Schema;
+  target?: ApiTargetName;
+}
+
+/**
+ * Create a definition object from its configuration
+ *
+ * Type-only builders (returns, body, query) return the same object;
+ * builders that change runtime configuration return a new one.
+ */
+function createEndpoint(config: EndpointConfig): EndpointDefinition<string, unknown, unknown, unknown> {
+  const { path } = config;
+  const build = (...params: PathParamValue[]) => fillPath(path, (_, index) => params[index]);
+
+  const definition = Object.assign(build, {
+    ...config,
+    resolve: (params: Record<string, PathParamValue> = {}) => fillPath(path, (name) => params[name]),
+    returns: () => definition,
+    body: () => definition,
+    query: () => definition,
+    validate: (responseSchema: Schema) => createEndpoint({ ...config, responseSchema }),
+    withTarget: (target: ApiTargetName) => createEndpoint({ ...config, target }),
+  });
+
+  return definition as unknown as EndpointDefinition<string, unknown, unknown, unknown>;
+}
+
+/**
+ * Endpoint definition builders
+ *
+ * @example
+ * endpoint.get('/users').query<UserListQuery>().returns<User[]>()
+ * endpoint.post('/users').body<CreateUserDto>().returns<User>()
+ * endpoint.delete('/users/:id').returns<void>()
+ */
+export const endpoint = {
+  get: <TPath extends string>(path: TPath) =>
+    createEndpoint({ method: 'GET', path }) as unknown as EndpointDefinition<TPath>,
+  post: <TPath extends string>(path: TPath) =>
+    createEndpoint({ method: 'POST', path }) as unknown as EndpointDefinition<TPath>,
+  put: <TPath extends string>(path: TPath) =>
+    createEndpoint({ method: 'PUT', path }) as unknown as EndpointDefinition<TPath>,
+  patch: <TPath extends string>(path: TPath) =>
+    createEndpoint({ method: 'PATCH', path }) as unknown as EndpointDefinition<TPath>,
+  delete: <TPath extends string>(path: TPath) =>
+    createEndpoint({ method: 'DELETE', path }) as unknown as EndpointDefinition<TPath>,
+};
+
+/**
+ * Check whether a value is an endpoint definition
+ */
+export function isEndpointDefinition(value: unknown): value is EndpointDefinitionBase {
+  return (
+    typeof value === 'function' &&
+    'method' in value &&
+    'path' in value &&
+    'resolve' in value &&
+    typeof value.resolve === 'function'
+  );
+}
+
+/**
+ * Bind every endpoint of a group to an API target
+ *
+ * @example
+ * leaves: forTarget('hr', {
+ *   list: endpoint.get('/leaves').returns<Leave[]>(),   // `${apiTargets.hr.url}/leaves`
+ * }),
+ */
+export function forTarget<G extends Record<string, EndpointDefinitionBase>>(target: ApiTargetName, group: G): G {
+  return Object.fromEntries(
+    Object.entries(group).map(([name, definition]) => [
+      name,
+      (definition as unknown as EndpointDefinition).withTarget(target),
+    ])
+  ) as unknown as G;
+}
@@ -6,39 +6,11 @@
  */
 
 import { Injectable } from '@angular/core';
-import { Observable } from 'rxjs';
+import { Observable, map } from 'rxjs';
 import { BaseApiService } from '../base-api.service';
 import { API_ENDPOINTS } from '../api-endpoints';
-import { ApiResponse, PaginatedResponse } from '../models/api-response.model';
-
-/**
- * User interface
- */
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  role?: string;
-  createdAt?: Date;
-}
-
-/**
- * Create user DTO
- */
-export interface CreateUserDto {
-  name: string;
-  email: string;
-  role?: string;
-}
-
-/**
- * Update user DTO
- */
-export interface UpdateUserDto {
-  name?: string;
-  email?: string;
-  role?: string;
-}
+import { PaginatedResponse } from '../models/api-response.model';
+import { CreateUserDto, UpdateUserDto, User } from '../../../shared/models';
 
 /**
  * Example User Service
@@ -46,6 +18,7 @@ export interface UpdateUserDto {
  * Shows best practices for using BaseApiService:
  * - ✅ Use BaseApiService instead of HttpClient
  * - ✅ Use centralized API_ENDPOINTS
+ * - ✅ Prefer call() so params, body and response are checked against the contract
  * - ✅ Define TypeScript interfaces
  * - ✅ Type all responses
  * - ✅ Document methods
@@ -62,7 +35,9 @@ export class ExampleUserService {
    * @returns Observable of users array
    */
   getUsers(): Observable<User[]> {
-    return this.apiService.get<User[]>(API_ENDPOINTS.users.list);
+    return this.apiService
+      .call(API_ENDPOINTS.users.list)
+      .pipe(map((response) => response.data));
   }
 
   /**
@@ -73,11 +48,8 @@ export class ExampleUserService {
    * @returns Observable of paginated response
    */
   getUsersPaginated(page: number = 1, pageSize: number = 10): Observable<PaginatedResponse<User>> {
-    return this.apiService.get<PaginatedResponse<User>>(API_ENDPOINTS.users.list, {
-      params: {
-        page,
-        pageSize,
-      },
+    return this.apiService.call(API_ENDPOINTS.users.list, {
+      query: { page, pageSize },
     });
   }
 
@@ -88,17 +60,7 @@ export class ExampleUserService {
    * @returns Observable of user
    */
   getUserById(id: string): Observable<User> {
-    return this.apiService.get<User>(API_ENDPOINTS.users.byId(id));
-  }
-
-  /**
-   * Get user by ID with wrapped response
-   *
-   * @param id - User ID
-   * @returns Observable of API response containing user
-   */
-  getUserByIdWrapped(id: string): Observable<ApiResponse<User>> {
-    return this.apiService.get<ApiResponse<User>>(API_ENDPOINTS.users.byId(id));
+    return this.apiService.call(API_ENDPOINTS.users.byId, { id });
   }
 
   /**
@@ -108,7 +70,7 @@ export class ExampleUserService {
    * @returns Observable of created user
    */
   createUser(userData: CreateUserDto): Observable<User> {
-    return this.apiService.post<User>(API_ENDPOINTS.users.create, userData);
+    return this.apiService.call(API_ENDPOINTS.users.create, { body: userData });
   }
 
   /**
@@ -119,7 +81,7 @@ export class ExampleUserService {
    * @returns Observable of updated user
    */
   updateUser(id: string, userData: UpdateUserDto): Observable<User> {
-    return this.apiService.put<User>(API_ENDPOINTS.users.update(id), userData);
+    return this.apiService.call(API_ENDPOINTS.users.update, { id, body: userData });
   }
 
   /**
@@ -140,7 +102,7 @@ export class ExampleUserService {
    * @returns Observable of void
    */
   deleteUser(id: string): Observable<void> {
-    return this.apiService.delete<void>(API_ENDPOINTS.users.delete(id));
+    return this.apiService.call(API_ENDPOINTS.users.delete, { id });
   }
 
   /**
@@ -152,9 +114,9 @@ export class ExampleUserService {
    * @returns Observable of users array
    */
   searchUsers(query: string): Observable<User[]> {
-    return this.apiService.get<User[]>(API_ENDPOINTS.users.list, {
-      params: { search: query },
-    });
+    return this.apiService
+      .call(API_ENDPOINTS.users.list, { query: { search: query } })
+      .pipe(map((response) => response.data));
   }
 
   /**
@@ -163,7 +125,7 @@ export class ExampleUserService {
    * @returns Observable of current user
    */
   getCurrentUser(): Observable<User> {
-    return this.apiService.get<User>(API_ENDPOINTS.users.profile);
+    return this.apiService.call(API_ENDPOINTS.users.profile);
   }
 
   /**
@@ -173,6 +135,6 @@ export class ExampleUserService {
    * @returns Observable of updated user
    */
   updateCurrentUser(userData: UpdateUserDto): Observable<User> {
-    return this.apiService.put<User>(API_ENDPOINTS.users.profile, userData);
+    return this.apiService.call(API_ENDPOINTS.users.updateProfile, { body: userData });
   }
 }
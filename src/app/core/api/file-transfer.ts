@@ -0,0 +1,64 @@
+/**
+ * File Transfer Helpers
+ *
+ * Utilities for BaseApiService uploads and downloads.
+ */
+
+import { ApiDownload } from './models/file-transfer.model';
+
+/**
+ * Extract the file name from a Content-Disposition header
+ *
+ * Prefers the RFC 5987 `filename*` form (needed for non-ASCII names such as
+ * Arabic) over the plain `filename` parameter.
+ *
+ * @example
+ * parseContentDispositionFileName(`attachment; filename*=UTF-8''%D8%AE%D8%B7%D8%A7%D8%A8.pdf`) // 'خطاب.pdf'
+ * parseContentDispositionFileName('attachment; filename="letter.pdf"')                        // 'letter.pdf'
+ */
+export function parseContentDispositionFileName(header: string | null): string | null {
+  if (!header) return null;
+
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Malformed encoding: fall back to the plain parameter
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i);
+  if (!plain) return null;
+
+  const value = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, '$1') : plain[1].trim();
+  return value || null;
+}
+
+/**
+ * Save a downloaded file through the browser
+ *
+ * @param download - Result of BaseApiService.download()
+ * @param fallbackName - Used when the server sent no file name
+ */
+export function saveDownload(download: ApiDownload, fallbackName = 'download'): void {
+  saveBlob(download.blob, download.fileName ?? fallbackName);
+}
+
+/**
+ * Save a blob as a file through the browser
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Let the browser start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -0,0 +1,29 @@
+/**
+ * HTTP Context
+ *
+ * Helpers for the HttpContext that carries request-level settings to the
+ * interceptors.
+ */
+
+import { HttpContext } from '@angular/common/http';
+
+/**
+ * Copy a context so that tokens can be set without changing the original
+ *
+ * HttpContext is mutable and callers may reuse one for several requests:
+ * setting a token on it would leak into all of them.
+ *
+ * @example
+ * const context = copyHttpContext(options.context).set(REQUEST_TIMEOUT, 5000);
+ */
+export function copyHttpContext(context?: HttpContext): HttpContext {
+  const copy = new HttpContext();
+
+  if (context) {
+    for (const token of context.keys()) {
+      copy.set(token, context.get(token));
+    }
+  }
+
+  return copy;
+}
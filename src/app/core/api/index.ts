@@ -7,9 +7,24 @@
 
 // Services
 export * from './base-api.service';
+export * from './http-context';
+export * from './request-cancellation';
+export * from './api-cache.service';
+export * from './paginated-data-source';
+export * from './file-transfer';
+export * from './offline-queue.service';
+export * from './offline-queue.storage';
 
 // Configuration
 export * from './api-endpoints';
+export * from './api-targets';
+export * from './endpoint-definition';
+export * from './schema';
+export * from './schemas';
 
 // Models
 export * from './models/api-response.model';
+export * from './models/api-cache.model';
+export * from './models/pagination.model';
+export * from './models/file-transfer.model';
+export * from './models/offline-queue.model';
@@ -0,0 +1,55 @@
+/**
+ * API Cache Models
+ *
+ * Type definitions for the client-side HTTP response cache.
+ */
+
+/**
+ * Cache policy for a GET request
+ */
+export interface ApiCachePolicy {
+  /** How long a response is served from cache without revalidation (ms) */
+  ttl: number;
+  /**
+   * Extra window after ttl during which the stale response is served
+   * immediately while a fresh one is fetched in the background (ms)
+   */
+  staleWhileRevalidate: number;
+}
+
+/**
+ * Cached response entry
+ */
+export interface ApiCacheEntry<T = unknown> {
+  key: string;
+  resource: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * Result of a cache lookup
+ */
+export interface ApiCacheHit<T = unknown> {
+  value: T;
+  stale: boolean;
+}
+
+/**
+ * TTL presets (in milliseconds)
+ */
+export const CACHE_TTL = {
+  short: 30 * 1000,
+  medium: 5 * 60 * 1000,
+  long: 60 * 60 * 1000,
+} as const;
+
+/**
+ * Default cache policy
+ */
+export const DEFAULT_CACHE_POLICY: ApiCachePolicy = {
+  ttl: CACHE_TTL.medium,
+  staleWhileRevalidate: 0,
+};
@@ -26,6 +26,22 @@ export interface PaginatedResponse<T> {
   };
 }
 
+/**
+ * Cursor-paginated API response
+ *
+ * `nextCursor` is null on the last page; `total` is optional because
+ * many cursor APIs do not count results.
+ */
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    nextCursor: string | null;
+    prevCursor?: string | null;
+    pageSize?: number;
+    total?: number;
+  };
+}
+
 /**
  * API error response
  */
@@ -0,0 +1,90 @@
+/**
+ * File Transfer Models
+ *
+ * Type definitions for uploads and downloads through BaseApiService.
+ */
+
+import { ApiRequestOptions } from '../base-api.service';
+
+/**
+ * Upload progress event
+ *
+ * Emitted while the file is sent; the last event has `state: 'done'`
+ * and carries the server response.
+ */
+export interface UploadProgress<T> {
+  state: 'uploading' | 'done';
+  /** Percentage sent, 0-100 */
+  progress: number;
+  /** Bytes sent so far */
+  loaded: number;
+  /** Total bytes to send */
+  total: number;
+  /** Server response, set when done */
+  response?: T;
+  /** Chunked uploads: id to pass back as `uploadId` to resume */
+  uploadId?: string;
+}
+
+/**
+ * Options for multipart uploads
+ */
+export interface ApiUploadOptions
+  extends Omit<ApiRequestOptions, 'responseType' | 'reportProgress' | 'dedupe' | 'cache' | 'showSuccessMessage'> {
+  /** HTTP method (default: 'POST') */
+  method?: 'POST' | 'PUT';
+  /** Form field holding the file (default: 'file') */
+  fieldName?: string;
+  /** File name sent with the part (default: the File name) */
+  fileName?: string;
+  /** Extra form fields sent with the file */
+  fields?: Record<string, string | Blob>;
+}
+
+/**
+ * Options for chunked, resumable uploads
+ */
+export interface ChunkedUploadOptions
+  extends Omit<ApiUploadOptions, 'method' | 'fieldName' | 'fields'> {
+  /** Bytes per chunk (default: DEFAULT_CHUNK_SIZE) */
+  chunkSize?: number;
+  /** Resume the upload session with this id instead of starting a new one */
+  uploadId?: string;
+  /** Extra fields sent when the session is created */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Upload session returned by the server for chunked uploads
+ */
+export interface ChunkedUploadSession {
+  uploadId: string;
+  /** Bytes already stored by the server; the upload continues from here */
+  uploadedBytes: number;
+}
+
+/**
+ * Options for blob downloads
+ */
+export interface ApiDownloadOptions
+  extends Omit<ApiRequestOptions, 'responseType' | 'dedupe' | 'cache' | 'schema' | 'showSuccessMessage'> {
+  /** HTTP method (default: 'GET'); use POST for generated documents */
+  method?: 'GET' | 'POST';
+  /** Request body for POST downloads */
+  body?: unknown;
+}
+
+/**
+ * Downloaded file
+ */
+export interface ApiDownload {
+  blob: Blob;
+  /** File name from Content-Disposition, when the server sends one */
+  fileName: string | null;
+  contentType: string | null;
+}
+
+/**
+ * Default chunk size for chunked uploads (5 MB)
+ */
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
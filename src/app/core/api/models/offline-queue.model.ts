@@ -0,0 +1,42 @@
+/**
+ * Offline Queue Models
+ *
+ * Type definitions for the outbox of mutations sent while offline.
+ */
+
+/**
+ * HTTP methods that can be queued
+ */
+export type QueueableMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Mutation stored in the outbox
+ */
+export interface QueuedRequest {
+  /** Auto-increment key; defines replay order */
+  id: number;
+  method: QueueableMethod;
+  /** Full URL including query parameters */
+  url: string;
+  body: unknown;
+  /** Request headers set by the caller (auth headers are added on replay) */
+  headers: Record<string, string>;
+  /** Label shown to the user, e.g. 'Leave request' */
+  label?: string;
+  /** Cached resource invalidated after replay */
+  resource?: string;
+  /** Signed-in user (Keycloak `sub`) who queued the request; null without auth */
+  userId: string | null;
+  createdAt: number;
+}
+
+/**
+ * Result of replaying the outbox
+ */
+export interface QueueReplayResult {
+  sent: number;
+  conflicts: number;
+  failed: number;
+  /** Requests still queued because the connection dropped again */
+  remaining: number;
+}
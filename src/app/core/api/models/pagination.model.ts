@@ -0,0 +1,80 @@
+/**
+ * Pagination Models
+ *
+ * Type definitions for PaginatedDataSource.
+ */
+
+import { ApiEndpointRef, ApiRequestOptions } from '../base-api.service';
+
+/**
+ * Query parameter value accepted by the data source
+ */
+export type PageParamValue = string | number | boolean;
+
+/**
+ * Extra query parameters sent with every page request (filters, sorting, ...)
+ */
+export type PageParams = Record<string, PageParamValue | readonly PageParamValue[]>;
+
+/**
+ * One page of results, normalised from the response
+ */
+export interface PageResult<T> {
+  items: T[];
+  /** Total number of items, when the API reports it */
+  total?: number;
+  /** Cursor of the following page; null on the last page (cursor mode) */
+  nextCursor?: string | null;
+}
+
+/**
+ * Configuration shared by page-number and cursor data sources
+ */
+interface PaginatedDataSourceConfigBase<T> {
+  /** Endpoint returning a page of items */
+  endpoint: ApiEndpointRef;
+  /** Items per page (default: DEFAULT_PAGE_SIZE) */
+  pageSize?: number;
+  /** Extra query parameters sent with every request */
+  params?: PageParams;
+  /** Query parameter carrying the page size (default: 'pageSize') */
+  pageSizeParam?: string;
+  /** Options forwarded to BaseApiService.get(); query params go in `params` */
+  requestOptions?: Omit<ApiRequestOptions, 'params'>;
+  /**
+   * Map a response that does not use the standard envelopes
+   * (PaginatedResponse / CursorPaginatedResponse). Errors thrown here are
+   * reported through the source's `error` signal.
+   */
+  mapResponse?: (response: unknown) => PageResult<T>;
+}
+
+/**
+ * Data source for `?page=N&pageSize=M` APIs returning PaginatedResponse<T>
+ */
+export interface PagePaginationConfig<T> extends PaginatedDataSourceConfigBase<T> {
+  mode?: 'page';
+  /** First page to load (default: 1) */
+  initialPage?: number;
+  /** Query parameter carrying the page number (default: 'page') */
+  pageParam?: string;
+}
+
+/**
+ * Data source for `?cursor=X&pageSize=M` APIs returning CursorPaginatedResponse<T>
+ */
+export interface CursorPaginationConfig<T> extends PaginatedDataSourceConfigBase<T> {
+  mode: 'cursor';
+  /** Query parameter carrying the cursor (default: 'cursor') */
+  cursorParam?: string;
+}
+
+/**
+ * Paginated data source configuration
+ */
+export type PaginatedDataSourceConfig<T> = PagePaginationConfig<T> | CursorPaginationConfig<T>;
+
+/**
+ * Default number of items per page
+ */
+export const DEFAULT_PAGE_SIZE = 10;
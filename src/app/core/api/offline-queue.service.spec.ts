@@ -0,0 +1,194 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { BehaviorSubject, throwError } from 'rxjs';
+import { KeycloakService } from '../auth/keycloak.service';
+import { ErrorLoggingService, errorInterceptor } from '../error';
+import { ToastService } from '../notifications';
+import { QueuedRequest } from './models/offline-queue.model';
+import { OfflineQueueService } from './offline-queue.service';
+import { OfflineQueueStorage } from './offline-queue.storage';
+
+/**
+ * In-memory outbox, so tests never touch the browser's IndexedDB
+ */
+class MemoryOutbox {
+  readonly entries: QueuedRequest[] = [];
+  private nextId = 1;
+
+  async getAll(): Promise<QueuedRequest[]> {
+    return [...this.entries];
+  }
+
+  async add(request: Omit<QueuedRequest, 'id'>): Promise<QueuedRequest> {
+    const entry = { ...request, id: this.nextId++ };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async delete(id: number): Promise<void> {
+    const index = this.entries.findIndex((entry) => entry.id === id);
+    if (index >= 0) {
+      this.entries.splice(index, 1);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.length = 0;
+  }
+}
+
+describe('OfflineQueueService', () => {
+  let user$: BehaviorSubject<{ sub: string } | null>;
+  let outbox: MemoryOutbox;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    user$ = new BehaviorSubject<{ sub: string } | null>({ sub: 'ada' });
+    outbox = new MemoryOutbox();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([errorInterceptor])),
+        provideHttpClientTesting(),
+        importProvidersFrom(TranslateModule.forRoot()),
+        { provide: OfflineQueueStorage, useValue: outbox },
+        {
+          provide: KeycloakService,
+          useValue: { user$, getUser: () => user$.value },
+        },
+      ],
+    });
+
+    spyOn(TestBed.inject(ErrorLoggingService), 'log');
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  /** Let the storage promises and the replay loop run */
+  async function settle(): Promise<void> {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  function queued(url: string, userId: string | null): Omit<QueuedRequest, 'id'> {
+    return { method: 'PUT', url, body: {}, headers: {}, userId, createdAt: 0 };
+  }
+
+  async function createService(): Promise<OfflineQueueService> {
+    const service = TestBed.inject(OfflineQueueService);
+    await settle();
+    return service;
+  }
+
+  it('should store the signed-in user with a queued request', async () => {
+    const service = await createService();
+
+    await service.enqueue({ method: 'POST', url: '/leaves', body: {}, headers: {} });
+
+    expect(service.pendingCount()).toBe(1);
+    expect(outbox.entries[0].userId).toBe('ada');
+  });
+
+  it('should not mark the browser offline when a request is queued', async () => {
+    const service = await createService();
+    const online = service.online();
+
+    await service.enqueue({ method: 'POST', url: '/leaves', body: {}, headers: {} });
+
+    expect(service.online()).toBe(online);
+  });
+
+  it('should replay requests in order and remove them once sent', async () => {
+    const service = await createService();
+    await outbox.add(queued('/a', 'ada'));
+    await outbox.add(queued('/b', 'ada'));
+
+    const result = service.replay();
+    await settle();
+    controller.expectOne('/a').flush({});
+    await settle();
+    controller.expectOne('/b').flush({});
+
+    expect(await result).toEqual({ sent: 2, conflicts: 0, failed: 0, remaining: 0 });
+    expect(outbox.entries).toEqual([]);
+  });
+
+  it('should stop replaying and keep the rest queued when the network drops again', async () => {
+    const service = await createService();
+    await outbox.add(queued('/a', 'ada'));
+    await outbox.add(queued('/b', 'ada'));
+
+    const result = service.replay();
+    await settle();
+    controller.expectOne('/a').error(new ProgressEvent('error'), { status: 0 });
+
+    expect((await result).sent).toBe(0);
+    expect(outbox.entries.length).toBe(2);
+  });
+
+  it('should stop replaying and keep the rest queued when a request times out', async () => {
+    const service = await createService();
+    spyOn(TestBed.inject(HttpClient), 'request').and.returnValue(
+      throwError(() => ({ code: 'HTTP_TIMEOUT' }))
+    );
+    await outbox.add(queued('/a', 'ada'));
+    await outbox.add(queued('/b', 'ada'));
+
+    const result = await service.replay();
+
+    expect(result.failed).toBe(0);
+    expect(outbox.entries.length).toBe(2);
+  });
+
+  it('should remove a conflicting request and warn the user', async () => {
+    const warning = spyOn(TestBed.inject(ToastService), 'warning');
+    const service = await createService();
+    await outbox.add(queued('/a', 'ada'));
+
+    const result = service.replay();
+    await settle();
+    controller.expectOne('/a').flush(null, { status: 409, statusText: 'Conflict' });
+
+    expect((await result).conflicts).toBe(1);
+    expect(outbox.entries).toEqual([]);
+    expect(warning).toHaveBeenCalled();
+  });
+
+  it("should drop another user's requests without sending them", async () => {
+    const service = await createService();
+    await outbox.add(queued('/a', 'grace'));
+
+    const result = await service.replay();
+
+    controller.expectNone('/a');
+    expect(result.sent).toBe(0);
+    expect(outbox.entries).toEqual([]);
+  });
+
+  it('should keep requests while no user is signed in', async () => {
+    user$.next(null);
+    const service = await createService();
+    await outbox.add(queued('/a', 'ada'));
+
+    await service.replay();
+
+    controller.expectNone('/a');
+    expect(outbox.entries.length).toBe(1);
+  });
+
+  it('should clear the outbox on logout', async () => {
+    const service = await createService();
+    await service.enqueue({ method: 'POST', url: '/leaves', body: {}, headers: {} });
+
+    user$.next(null);
+    await settle();
+
+    expect(service.pendingCount()).toBe(0);
+    expect(outbox.entries).toEqual([]);
+  });
+});
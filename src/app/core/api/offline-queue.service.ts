@@ -0,0 +1,252 @@
+/**
+ * Offline Queue Service
+ *
+ * Persistent outbox for mutations that failed because the network was
+ * unavailable (status 0). Queued requests are replayed in order when the
+ * browser reports connectivity again, and on the next app start.
+ *
+ * Requests belong to the user who queued them: they are only replayed for
+ * that user and the outbox is cleared on logout.
+ */
+
+import { DestroyRef, Injectable, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { TranslateService } from '@ngx-translate/core';
+import { firstValueFrom } from 'rxjs';
+import { pairwise } from 'rxjs/operators';
+import { KeycloakService } from '../auth/keycloak.service';
+import { AppError, ErrorLoggingService, ErrorService, HttpErrorCode } from '../error';
+import { TOAST_DURATIONS, ToastService } from '../notifications';
+import { ApiCacheService } from './api-cache.service';
+import { OfflineQueueStorage } from './offline-queue.storage';
+import { QueueReplayResult, QueuedRequest } from './models/offline-queue.model';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineQueueService {
+  private readonly http = inject(HttpClient);
+  private readonly storage = inject(OfflineQueueStorage);
+  private readonly errorService = inject(ErrorService);
+  private readonly loggingService = inject(ErrorLoggingService);
+  private readonly toastService = inject(ToastService);
+  private readonly translate = inject(TranslateService);
+  private readonly cache = inject(ApiCacheService);
+  private readonly keycloakService = inject(KeycloakService);
+
+  private readonly queueSignal = signal<QueuedRequest[]>([]);
+  private readonly onlineSignal = signal(typeof navigator === 'undefined' || navigator.onLine);
+  private readonly syncingSignal = signal(false);
+
+  /** Queued requests, oldest first */
+  readonly queue = this.queueSignal.asReadonly();
+
+  /**
+   * Whether the browser reports network connectivity
+   *
+   * Only the browser's online/offline events change it: a failed request
+   * does not mean the browser is offline (the server may be down).
+   */
+  readonly online = this.onlineSignal.asReadonly();
+
+  /** Whether the queue is being replayed */
+  readonly syncing = this.syncingSignal.asReadonly();
+
+  /** Number of queued requests */
+  readonly pendingCount = computed(() => this.queueSignal().length);
+
+  constructor() {
+    const onOnline = () => {
+      this.onlineSignal.set(true);
+      void this.replay();
+    };
+    const onOffline = () => this.onlineSignal.set(false);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+
+      inject(DestroyRef).onDestroy(() => {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+      });
+    }
+
+    this.keycloakService.user$
+      .pipe(pairwise(), takeUntilDestroyed())
+      .subscribe(([previous, current]) => {
+        if (previous && !current) {
+          // Queued requests must not outlive the session of the user who made them
+          void this.clear();
+        } else if (!previous && current && this.pendingCount() > 0 && this.onlineSignal()) {
+          // Requests restored before the user was known
+          void this.replay();
+        }
+      });
+
+    // Restore requests queued in a previous session
+    void this.restore();
+  }
+
+  /**
+   * Check whether an error means the request never reached the server
+   */
+  isOfflineError(error: unknown): boolean {
+    if (error instanceof HttpErrorResponse) {
+      return this.errorService.isNetworkError(error);
+    }
+
+    return (error as AppError | undefined)?.context?.statusCode === 0;
+  }
+
+  /**
+   * Add a request to the outbox, on behalf of the signed-in user
+   */
+  async enqueue(
+    request: Omit<QueuedRequest, 'id' | 'createdAt' | 'userId'>
+  ): Promise<QueuedRequest> {
+    const queued = await this.storage.add({
+      ...request,
+      userId: this.currentUserId(),
+      createdAt: Date.now(),
+    });
+
+    this.queueSignal.update((queue) => [...queue, queued]);
+
+    return queued;
+  }
+
+  /**
+   * Remove every queued request
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.queueSignal.set([]);
+  }
+
+  /**
+   * Send queued requests in order
+   *
+   * - Successful requests are removed
+   * - 409 conflicts are removed and reported to the user
+   * - Other failures are removed and reported with their error message
+   * - A network failure or timeout stops the replay; the rest stays queued
+   * - Requests queued by another user are removed without being sent;
+   *   nothing is sent while no user is signed in (auth enabled)
+   */
+  async replay(): Promise<QueueReplayResult> {
+    const result: QueueReplayResult = { sent: 0, conflicts: 0, failed: 0, remaining: 0 };
+
+    if (this.syncingSignal()) {
+      return { ...result, remaining: this.pendingCount() };
+    }
+
+    this.syncingSignal.set(true);
+
+    try {
+      const userId = this.currentUserId();
+
+      for (const request of await this.storage.getAll()) {
+        if (request.userId !== userId) {
+          // Never sent for someone else; dropped once a different user is known
+          if (userId !== null) {
+            await this.remove(request.id);
+          }
+          continue;
+        }
+
+        try {
+          await firstValueFrom(
+            this.http.request(request.method, request.url, {
+              body: request.body,
+              headers: request.headers,
+            }),
+            { defaultValue: null }
+          );
+          if (request.resource) {
+            this.cache.invalidateResource(request.resource);
+          }
+          result.sent++;
+        } catch (error) {
+          if (this.isOfflineError(error) || this.isTimeout(error)) {
+            break;
+          }
+
+          this.reportFailure(request, error as AppError);
+          if (this.isConflict(error)) {
+            result.conflicts++;
+          } else {
+            result.failed++;
+          }
+        }
+
+        await this.remove(request.id);
+      }
+    } finally {
+      this.syncingSignal.set(false);
+    }
+
+    result.remaining = this.pendingCount();
+
+    if (result.sent > 0) {
+      this.toastService.success(
+        this.translate.instant('offline.replayed', { count: result.sent })
+      );
+    }
+
+    return result;
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      this.queueSignal.set(await this.storage.getAll());
+
+      if (this.pendingCount() > 0 && this.onlineSignal()) {
+        await this.replay();
+      }
+    } catch (error) {
+      // The app works without the outbox; only report it to the log hooks
+      this.loggingService.log(
+        this.errorService.createAppError(error, { componentName: 'OfflineQueueService' })
+      );
+    }
+  }
+
+  private currentUserId(): string | null {
+    return this.keycloakService.getUser()?.sub ?? null;
+  }
+
+  private async remove(id: number): Promise<void> {
+    await this.storage.delete(id);
+    this.queueSignal.update((queue) => queue.filter((request) => request.id !== id));
+  }
+
+  private isTimeout(error: unknown): boolean {
+    return (error as AppError | undefined)?.code === 'HTTP_TIMEOUT';
+  }
+
+  private isConflict(error: unknown): boolean {
+    return (error as AppError | undefined)?.context?.statusCode === HttpErrorCode.Conflict;
+  }
+
+  private reportFailure(request: QueuedRequest, error: AppError): void {
+    const label = request.label ?? `${request.method} ${new URL(request.url, 'http://local').pathname}`;
+
+    if (this.isConflict(error)) {
+      this.toastService.warning(this.translate.instant('offline.conflict', { label }), {
+        title: this.translate.instant('offline.conflictTitle'),
+        duration: TOAST_DURATIONS.persistent,
+      });
+      return;
+    }
+
+    const title = this.translate.instant('offline.failedTitle', { label });
+
+    if (error?.userMessage) {
+      this.toastService.showError(error, { title });
+    } else {
+      this.toastService.error(String(error), { title });
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Offline Queue Storage
+ *
+ * IndexedDB persistence for the offline outbox. Falls back to memory when
+ * IndexedDB is unavailable (private browsing, tests), so queued requests
+ * then only survive until the page is reloaded.
+ */
+
+import { Injectable } from '@angular/core';
+import { QueuedRequest } from './models/offline-queue.model';
+
+const DB_NAME = 'selfservices-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineQueueStorage {
+  private database?: Promise<IDBDatabase | null>;
+  private readonly memory = new Map<number, QueuedRequest>();
+  private nextMemoryId = 1;
+
+  /**
+   * All queued requests, oldest first
+   */
+  async getAll(): Promise<QueuedRequest[]> {
+    const db = await this.open();
+
+    if (!db) {
+      return [...this.memory.values()];
+    }
+
+    return this.run<QueuedRequest[]>(db, 'readonly', (store) => store.getAll());
+  }
+
+  /**
+   * Store a request and return it with its id
+   */
+  async add(request: Omit<QueuedRequest, 'id'>): Promise<QueuedRequest> {
+    const db = await this.open();
+
+    if (!db) {
+      const entry = { ...request, id: this.nextMemoryId++ };
+      this.memory.set(entry.id, entry);
+      return entry;
+    }
+
+    const id = await this.run<IDBValidKey>(db, 'readwrite', (store) => store.add(request));
+    return { ...request, id: id as number };
+  }
+
+  /**
+   * Remove a request
+   */
+  async delete(id: number): Promise<void> {
+    const db = await this.open();
+
+    if (!db) {
+      this.memory.delete(id);
+      return;
+    }
+
+    await this.run(db, 'readwrite', (store) => store.delete(id));
+  }
+
+  /**
+   * Remove all requests
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+
+    if (!db) {
+      this.memory.clear();
+      return;
+    }
+
+    await this.run(db, 'readwrite', (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Offline queue: IndexedDB unavailable, using memory', request.error);
+          resolve(null);
+        };
+      });
+    }
+
+    return this.database;
+  }
+
+  private run<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
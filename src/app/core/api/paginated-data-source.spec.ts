@@ -0,0 +1,215 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { environment } from '../../../environments/environment';
+import { ErrorLoggingService } from '../error';
+import { PaginatedDataSourceConfig } from './models/pagination.model';
+import { PaginatedDataSource, injectPaginatedDataSource } from './paginated-data-source';
+
+describe('PaginatedDataSource', () => {
+  const url = `${environment.apiUrl}/items`;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        importProvidersFrom(TranslateModule.forRoot()),
+      ],
+    });
+
+    spyOn(TestBed.inject(ErrorLoggingService), 'log');
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  function create<T = number>(
+    config: Partial<PaginatedDataSourceConfig<T>> = {}
+  ): PaginatedDataSource<T> {
+    const fullConfig = { endpoint: '/items', pageSize: 2, ...config } as PaginatedDataSourceConfig<T>;
+    return TestBed.runInInjectionContext(() => injectPaginatedDataSource<T>(fullConfig));
+  }
+
+  function expectPage(params: Record<string, string>) {
+    const req = controller.expectOne((r) => r.url === url);
+    for (const [name, value] of Object.entries(params)) {
+      expect(req.request.params.get(name)).withContext(name).toBe(value);
+    }
+    return req;
+  }
+
+  function page(data: number[], total?: number) {
+    return { data, pagination: { page: 1, pageSize: 2, total, totalPages: 0 } };
+  }
+
+  describe('page mode', () => {
+    it('should load a page and track the totals', () => {
+      const source = create();
+      source.load();
+      expect(source.loading()).toBeTrue();
+
+      expectPage({ page: '1', pageSize: '2' }).flush(page([1, 2], 5));
+
+      expect(source.items()).toEqual([1, 2]);
+      expect(source.total()).toBe(5);
+      expect(source.totalPages()).toBe(3);
+      expect(source.hasNext()).toBeTrue();
+      expect(source.hasPrevious()).toBeFalse();
+      expect(source.loading()).toBeFalse();
+    });
+
+    it('should move between pages, replacing the items', () => {
+      const source = create();
+      source.load();
+      expectPage({ page: '1' }).flush(page([1, 2], 4));
+
+      source.next();
+      expectPage({ page: '2' }).flush(page([3, 4], 4));
+      expect(source.items()).toEqual([3, 4]);
+      expect(source.page()).toBe(2);
+      expect(source.hasNext()).toBeFalse();
+
+      source.next();
+      controller.expectNone((r) => r.url === url);
+
+      source.previous();
+      expectPage({ page: '1' }).flush(page([1, 2], 4));
+      expect(source.page()).toBe(1);
+    });
+
+    it('should ignore jumps outside the known pages', () => {
+      const source = create();
+      source.load();
+      expectPage({ page: '1' }).flush(page([1, 2], 4));
+
+      source.goTo(3);
+      source.goTo(0);
+      controller.expectNone((r) => r.url === url);
+
+      source.goTo(2);
+      expectPage({ page: '2' }).flush(page([3, 4], 4));
+    });
+
+    it('should append pages with loadMore()', () => {
+      const source = create();
+      source.load();
+      expectPage({ page: '1' }).flush(page([1, 2], 3));
+
+      source.loadMore();
+      source.loadMore();
+      expectPage({ page: '2' }).flush(page([3], 3));
+
+      expect(source.items()).toEqual([1, 2, 3]);
+      expect(source.hasNext()).toBeFalse();
+    });
+
+    it('should guess hasNext from a full page when there is no total', () => {
+      const source = create();
+      source.load();
+      expectPage({ page: '1' }).flush(page([1, 2]));
+
+      expect(source.total()).toBeNull();
+      expect(source.hasNext()).toBeTrue();
+    });
+
+    it('should restart from the first page with new params', () => {
+      const source = create({ initialPage: 2 });
+      source.load();
+      expectPage({ page: '2' }).flush(page([3, 4], 4));
+
+      source.setParams({ role: 'admin' });
+
+      expect(source.items()).toEqual([]);
+      expectPage({ page: '2', role: 'admin' }).flush(page([], 0));
+    });
+
+    it('should cancel the request in flight when navigating again', () => {
+      const source = create();
+      source.load();
+      const first = controller.expectOne((r) => r.url === url);
+
+      source.setPageSize(5);
+
+      expect(first.cancelled).toBeTrue();
+      expectPage({ pageSize: '5' }).flush(page([], 0));
+    });
+  });
+
+  describe('cursor mode', () => {
+    function cursorPage(data: number[], nextCursor: string | null) {
+      return { data, pagination: { pageSize: 2, nextCursor } };
+    }
+
+    it('should send the cursor of the next page', () => {
+      const source = create({ mode: 'cursor' });
+      source.load();
+      const first = expectPage({ pageSize: '2' });
+      expect(first.request.params.has('cursor')).toBeFalse();
+      first.flush(cursorPage([1, 2], 'abc'));
+
+      source.next();
+      expectPage({ cursor: 'abc' }).flush(cursorPage([3], null));
+
+      expect(source.items()).toEqual([3]);
+      expect(source.hasNext()).toBeFalse();
+    });
+
+    it('should only jump to pages with a known cursor', () => {
+      const source = create({ mode: 'cursor' });
+      source.load();
+      expectPage({}).flush(cursorPage([1, 2], 'abc'));
+
+      source.goTo(3);
+      controller.expectNone((r) => r.url === url);
+
+      source.goTo(2);
+      expectPage({ cursor: 'abc' }).flush(cursorPage([3, 4], 'def'));
+    });
+  });
+
+  describe('errors', () => {
+    it('should report a failed request and stop loading', () => {
+      const source = create();
+      source.load();
+
+      controller.expectOne((r) => r.url === url).flush(null, { status: 500, statusText: 'Error' });
+
+      expect(source.error()).toBeTruthy();
+      expect(source.loading()).toBeFalse();
+    });
+
+    it('should report an error thrown by mapResponse and stop loading', () => {
+      const source = create({
+        mapResponse: () => {
+          throw new Error('Unexpected shape');
+        },
+      });
+      source.load();
+
+      controller.expectOne((r) => r.url === url).flush({});
+
+      expect(source.error()?.message).toBe('Unexpected shape');
+      expect(source.loading()).toBeFalse();
+      expect(source.items()).toEqual([]);
+    });
+
+    it('should use mapResponse for other response shapes', () => {
+      const source = create({
+        mapResponse: (response) => {
+          const { results, count } = response as { results: number[]; count: number };
+          return { items: results, total: count };
+        },
+      });
+      source.load();
+
+      controller.expectOne((r) => r.url === url).flush({ results: [1], count: 1 });
+
+      expect(source.items()).toEqual([1]);
+      expect(source.total()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Paginated Data Source
+ *
+ * Signal-based state for paged lists backed by BaseApiService.
+ * Works with page-number APIs (PaginatedResponse) and cursor APIs
+ * (CursorPaginatedResponse), for both classic pagers and infinite scroll.
+ */
+
+import { DestroyRef, computed, inject, signal } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { AppError, ErrorService } from '../error';
+import { BaseApiService } from './base-api.service';
+import { CursorPaginatedResponse, PaginatedResponse } from './models/api-response.model';
+import {
+  DEFAULT_PAGE_SIZE,
+  PageParams,
+  PageResult,
+  PaginatedDataSourceConfig,
+} from './models/pagination.model';
+
+/**
+ * Paginated Data Source
+ *
+ * - `next()`, `previous()` and `goTo()` replace the items with another page
+ * - `loadMore()` appends the next page to the items (infinite scroll)
+ * - `setParams()` and `setPageSize()` restart from the first page
+ *
+ * Starting a navigation cancels the request still in flight. Cursor sources
+ * can only jump to pages whose cursor is already known (pages visited so far
+ * and the one right after).
+ *
+ * @example
+ * readonly users = injectPaginatedDataSource<User>({
+ *   endpoint: API_ENDPOINTS.users.list,
+ *   pageSize: 20,
+ * });
+ *
+ * ngOnInit(): void {
+ *   this.users.load();
+ * }
+ *
+ * // template: users.items(), users.page(), users.totalPages(), users.next()
+ */
+export class PaginatedDataSource<T> {
+  private readonly itemsSignal = signal<T[]>([]);
+  private readonly pageSignal = signal(1);
+  private readonly pageSizeSignal = signal(DEFAULT_PAGE_SIZE);
+  private readonly totalSignal = signal<number | null>(null);
+  private readonly paramsSignal = signal<PageParams>({});
+  private readonly hasNextSignal = signal(false);
+  private readonly loadingSignal = signal(false);
+  private readonly errorSignal = signal<AppError | null>(null);
+
+  /** Cursor mode: cursors[n] fetches page n + 1, null marks the end */
+  private cursors: (string | null)[] = [null];
+  private request?: Subscription;
+
+  // Public readonly signals
+  readonly items = this.itemsSignal.asReadonly();
+  readonly page = this.pageSignal.asReadonly();
+  readonly pageSize = this.pageSizeSignal.asReadonly();
+  /** Total number of items; null when the API does not report it */
+  readonly total = this.totalSignal.asReadonly();
+  readonly params = this.paramsSignal.asReadonly();
+  readonly hasNext = this.hasNextSignal.asReadonly();
+  readonly loading = this.loadingSignal.asReadonly();
+  readonly error = this.errorSignal.asReadonly();
+
+  // Computed values
+  readonly totalPages = computed(() => {
+    const total = this.total();
+    return total === null ? null : Math.ceil(total / this.pageSize());
+  });
+  readonly hasPrevious = computed(() => this.page() > 1);
+
+  constructor(
+    private readonly apiService: BaseApiService,
+    private readonly errorService: ErrorService,
+    private readonly config: PaginatedDataSourceConfig<T>
+  ) {
+    this.pageSizeSignal.set(config.pageSize ?? DEFAULT_PAGE_SIZE);
+    this.paramsSignal.set(config.params ?? {});
+    this.pageSignal.set(this.firstPage);
+  }
+
+  /**
+   * Load the current page, replacing the items
+   */
+  load(): void {
+    this.fetch(this.page(), false);
+  }
+
+  /**
+   * Load the next page, replacing the items
+   */
+  next(): void {
+    if (this.hasNext()) {
+      this.fetch(this.page() + 1, false);
+    }
+  }
+
+  /**
+   * Load the previous page, replacing the items
+   */
+  previous(): void {
+    if (this.hasPrevious()) {
+      this.fetch(this.page() - 1, false);
+    }
+  }
+
+  /**
+   * Jump to a page, replacing the items
+   *
+   * Out-of-range pages (and unknown cursor pages) are ignored.
+   */
+  goTo(page: number): void {
+    if (!this.canGoTo(page)) return;
+    this.fetch(page, false);
+  }
+
+  /**
+   * Append the next page to the items
+   *
+   * Ignored while a request is pending or when the last page was reached,
+   * so it can be called from every scroll event.
+   */
+  loadMore(): void {
+    if (this.loading() || !this.hasNext()) return;
+    this.fetch(this.page() + 1, true);
+  }
+
+  /**
+   * Replace the extra query parameters and restart from the first page
+   */
+  setParams(params: PageParams): void {
+    this.paramsSignal.set(params);
+    this.reset();
+  }
+
+  /**
+   * Change the page size and restart from the first page
+   */
+  setPageSize(pageSize: number): void {
+    this.pageSizeSignal.set(pageSize);
+    this.reset();
+  }
+
+  /**
+   * Clear the items and reload the first page
+   */
+  reset(): void {
+    this.cursors = [null];
+    this.itemsSignal.set([]);
+    this.totalSignal.set(null);
+    this.hasNextSignal.set(false);
+    this.fetch(this.firstPage, false);
+  }
+
+  /**
+   * Cancel the pending request
+   */
+  destroy(): void {
+    this.request?.unsubscribe();
+    this.loadingSignal.set(false);
+  }
+
+  private get isCursorMode(): boolean {
+    return this.config.mode === 'cursor';
+  }
+
+  private get firstPage(): number {
+    return this.config.mode === 'cursor' ? 1 : (this.config.initialPage ?? 1);
+  }
+
+  private canGoTo(page: number): boolean {
+    if (!Number.isInteger(page) || page < 1) return false;
+
+    if (this.isCursorMode) {
+      return page === 1 || typeof this.cursors[page - 1] === 'string';
+    }
+
+    const totalPages = this.totalPages();
+    return totalPages === null || page <= Math.max(totalPages, 1);
+  }
+
+  private fetch(page: number, append: boolean): void {
+    this.request?.unsubscribe();
+    this.loadingSignal.set(true);
+    this.errorSignal.set(null);
+
+    this.request = this.apiService
+      .get<unknown>(this.config.endpoint, {
+        ...this.config.requestOptions,
+        params: { ...this.params(), ...this.buildPageParams(page) },
+      })
+      .pipe(map((response) => this.mapResponse(response)))
+      .subscribe({
+        next: (result) => this.applyResult(page, result, append),
+        error: (error: unknown) => {
+          this.errorSignal.set(this.toAppError(error));
+          this.loadingSignal.set(false);
+        },
+      });
+  }
+
+  private buildPageParams(page: number): PageParams {
+    const params: PageParams = {
+      [this.config.pageSizeParam ?? 'pageSize']: this.pageSize(),
+    };
+
+    if (this.config.mode === 'cursor') {
+      const cursor = this.cursors[page - 1];
+      if (cursor) {
+        params[this.config.cursorParam ?? 'cursor'] = cursor;
+      }
+    } else {
+      params[this.config.pageParam ?? 'page'] = page;
+    }
+
+    return params;
+  }
+
+  private mapResponse(response: unknown): PageResult<T> {
+    if (this.config.mapResponse) {
+      return this.config.mapResponse(response);
+    }
+
+    if (this.isCursorMode) {
+      const { data, pagination } = response as CursorPaginatedResponse<T>;
+      return { items: data, total: pagination.total, nextCursor: pagination.nextCursor };
+    }
+
+    const { data, pagination } = response as PaginatedResponse<T>;
+    return { items: data, total: pagination.total };
+  }
+
+  /**
+   * HTTP failures arrive as AppErrors; anything thrown while mapping the
+   * response is converted
+   */
+  private toAppError(error: unknown): AppError {
+    return error instanceof Error
+      ? this.errorService.createAppError(error, { componentName: 'PaginatedDataSource' })
+      : (error as AppError);
+  }
+
+  private applyResult(page: number, result: PageResult<T>, append: boolean): void {
+    this.itemsSignal.update((items) => (append ? [...items, ...result.items] : result.items));
+    this.pageSignal.set(page);
+    this.totalSignal.set(result.total ?? null);
+
+    if (this.isCursorMode) {
+      const nextCursor = result.nextCursor ?? null;
+      this.cursors = [...this.cursors.slice(0, page), nextCursor];
+      this.hasNextSignal.set(nextCursor !== null);
+    } else if (result.total !== undefined) {
+      this.hasNextSignal.set(page * this.pageSize() < result.total);
+    } else {
+      // Without a total, a full page means there may be more
+      this.hasNextSignal.set(result.items.length >= this.pageSize());
+    }
+
+    this.loadingSignal.set(false);
+  }
+}
+
+/**
+ * Create a PaginatedDataSource tied to the current injection context
+ *
+ * The pending request is cancelled when the owner is destroyed.
+ * Must be called in an injection context (field initializer or constructor).
+ */
+export function injectPaginatedDataSource<T>(
+  config: PaginatedDataSourceConfig<T>
+): PaginatedDataSource<T> {
+  const source = new PaginatedDataSource<T>(inject(BaseApiService), inject(ErrorService), config);
+  inject(DestroyRef).onDestroy(() => source.destroy());
+  return source;
+}
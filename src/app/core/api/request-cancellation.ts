@@ -0,0 +1,31 @@
+/**
+ * Request Cancellation
+ *
+ * Helpers for cancelling pending API calls when their owner goes away.
+ */
+
+import { DestroyRef, inject } from '@angular/core';
+
+/**
+ * Create an AbortSignal tied to the current injection context
+ *
+ * The signal aborts when the owning component, directive or service is
+ * destroyed, e.g. when the user navigates away from a routed page.
+ * Must be called in an injection context (field initializer or constructor).
+ *
+ * @example
+ * export class UsersPageComponent {
+ *   private readonly abortSignal = injectAbortSignal();
+ *
+ *   load(): void {
+ *     this.apiService
+ *       .call(API_ENDPOINTS.users.list, {}, { signal: this.abortSignal })
+ *       .subscribe((response) => this.users.set(response.data));
+ *   }
+ * }
+ */
+export function injectAbortSignal(): AbortSignal {
+  const controller = new AbortController();
+  inject(DestroyRef).onDestroy(() => controller.abort());
+  return controller.signal;
+}
@@ -0,0 +1,155 @@
+/**
+ * Response Schemas
+ *
+ * Minimal runtime schema builder used to validate API responses against
+ * their declared contracts. Unknown object keys are allowed so that
+ * additive backend changes do not fail validation.
+ *
+ * @example
+ * const userSchema = schema.object({
+ *   id: schema.string(),
+ *   name: schema.string(),
+ *   role: schema.optional(schema.string()),
+ * });
+ *
+ * validateSchema(userSchema, response); // [] when valid
+ */
+
+/**
+ * Single validation failure
+ */
+export interface SchemaIssue {
+  /** JSONPath-like location of the offending value, e.g. `$.data[0].email` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Runtime schema for values of type T
+ */
+export interface Schema<T = unknown> {
+  /** Type-only marker, never set at runtime */
+  readonly __type?: T;
+  /** Human readable type name used in issue messages */
+  readonly description: string;
+  /** Set for schemas created with schema.optional() */
+  readonly optional?: boolean;
+  check(value: unknown, path: string): SchemaIssue[];
+}
+
+/**
+ * Type described by a schema
+ */
+export type InferSchema<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalSchema = Schema & { readonly optional: true };
+
+type ObjectShape = Record<string, Schema>;
+
+type InferObject<S extends ObjectShape> = {
+  [K in keyof S as S[K] extends OptionalSchema ? never : K]: InferSchema<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema ? K : never]?: InferSchema<S[K]>;
+};
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function mismatch(path: string, expected: string, value: unknown): SchemaIssue[] {
+  return [{ path, message: `Expected ${expected}, received ${describe(value)}` }];
+}
+
+function define<T>(description: string, check: Schema['check']): Schema<T> {
+  return { description, check };
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return define<T>(type, (value, path) =>
+    typeof value === type && !(type === 'number' && Number.isNaN(value))
+      ? []
+      : mismatch(path, type, value)
+  );
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+  string: () => primitive<string>('string'),
+
+  number: () => primitive<number>('number'),
+
+  boolean: () => primitive<boolean>('boolean'),
+
+  unknown: () => define<unknown>('unknown', () => []),
+
+  literal: <T extends string | number | boolean>(expected: T): Schema<T> =>
+    define<T>(JSON.stringify(expected), (value, path) =>
+      value === expected ? [] : mismatch(path, JSON.stringify(expected), value)
+    ),
+
+  enum: <T extends string>(values: readonly T[]): Schema<T> => {
+    const description = values.map((v) => JSON.stringify(v)).join(' | ');
+    return define<T>(description, (value, path) =>
+      values.includes(value as T) ? [] : mismatch(path, description, value)
+    );
+  },
+
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    define<T[]>(`${item.description}[]`, (value, path) =>
+      Array.isArray(value)
+        ? value.flatMap((entry, index) => item.check(entry, `${path}[${index}]`))
+        : mismatch(path, 'array', value)
+    ),
+
+  object: <S extends ObjectShape>(shape: S): Schema<InferObject<S>> =>
+    define<InferObject<S>>('object', (value, path) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return mismatch(path, 'object', value);
+      }
+
+      const record = value as Record<string, unknown>;
+
+      return Object.entries(shape).flatMap(([key, field]) => {
+        const fieldValue = record[key];
+        if (fieldValue === undefined && field.optional) {
+          return [];
+        }
+        return field.check(fieldValue, `${path}.${key}`);
+      });
+    }),
+
+  record: <T>(entry: Schema<T>): Schema<Record<string, T>> =>
+    define<Record<string, T>>(`Record<string, ${entry.description}>`, (value, path) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return mismatch(path, 'object', value);
+      }
+
+      return Object.entries(value).flatMap(([key, fieldValue]) =>
+        entry.check(fieldValue, `${path}.${key}`)
+      );
+    }),
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> & { readonly optional: true } => ({
+    description: `${inner.description} | undefined`,
+    optional: true,
+    check: (value, path) => (value === undefined ? [] : inner.check(value, path)),
+  }),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+    define<T | null>(`${inner.description} | null`, (value, path) =>
+      value === null ? [] : inner.check(value, path)
+    ),
+};
+
+/**
+ * Validate a value against a schema
+ *
+ * @returns The list of issues; empty when the value matches
+ */
+export function validateSchema(target: Schema, value: unknown): SchemaIssue[] {
+  return target.check(value, '$');
+}
@@ -0,0 +1,58 @@
+/**
+ * API Response Schemas
+ *
+ * Runtime counterparts of the envelopes in api-response.model.ts.
+ */
+
+import { Schema, schema } from '../schema';
+
+/**
+ * Schema for ApiResponse<T>
+ */
+export function apiResponseSchema<T>(data: Schema<T>) {
+  return schema.object({
+    data,
+    message: schema.optional(schema.string()),
+    success: schema.boolean(),
+  });
+}
+
+/**
+ * Schema for PaginatedResponse<T>
+ */
+export function paginatedResponseSchema<T>(item: Schema<T>) {
+  return schema.object({
+    data: schema.array(item),
+    pagination: schema.object({
+      page: schema.number(),
+      pageSize: schema.number(),
+      total: schema.number(),
+      totalPages: schema.number(),
+    }),
+  });
+}
+
+/**
+ * Schema for CursorPaginatedResponse<T>
+ */
+export function cursorPaginatedResponseSchema<T>(item: Schema<T>) {
+  return schema.object({
+    data: schema.array(item),
+    pagination: schema.object({
+      nextCursor: schema.nullable(schema.string()),
+      prevCursor: schema.optional(schema.nullable(schema.string())),
+      pageSize: schema.optional(schema.number()),
+      total: schema.optional(schema.number()),
+    }),
+  });
+}
+
+/**
+ * Schema for ListResponse<T>
+ */
+export function listResponseSchema<T>(item: Schema<T>) {
+  return schema.object({
+    items: schema.array(item),
+    total: schema.number(),
+  });
+}
@@ -0,0 +1,2 @@
+export * from './api-response.schema';
+export * from './user.schema';
@@ -0,0 +1,19 @@
+/**
+ * User Schemas
+ *
+ * Runtime contract for the users endpoints (see shared/models/user.model.ts).
+ */
+
+import { schema } from '../schema';
+
+/**
+ * Schema for User
+ */
+export const userSchema = schema.object({
+  id: schema.string(),
+  name: schema.string(),
+  email: schema.string(),
+  role: schema.optional(schema.string()),
+  // Serialized as an ISO string over the wire
+  createdAt: schema.optional(schema.string()),
+});
@@ -8,13 +8,17 @@
 // Services
 export * from './keycloak.service';
 export * from './keycloak.initializer';
+export * from './permission.service';
+export * from './permissions';
 
 // Guards
 export * from './auth.guard';
 export * from './role.guard';
+export * from './permission.guard';
 
 // Interceptor
 export * from './keycloak.interceptor';
 
 // Models
 export * from './models/keycloak-user.model';
+export * from './models/permission.model';
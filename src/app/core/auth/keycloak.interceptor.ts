@@ -3,6 +3,9 @@
  *
  * Automatically injects the Keycloak access token into HTTP requests.
  * Also handles token refresh before requests if the token is about to expire.
+ *
+ * Requests to an API target (see core/api/api-targets.ts) also get the
+ * target's default headers, timeout and token injection rules.
  */
 
 import { HttpInterceptorFn, HttpRequest, HttpHandlerFn, HttpEvent } from '@angular/common/http';
@@ -10,6 +13,10 @@ import { inject } from '@angular/core';
 import { from, Observable, switchMap } from 'rxjs';
 import { KeycloakService } from './keycloak.service';
 import { environment } from '../../../environments/environment';
+import { ApiTargetTokenConfig } from '../../../environments/environment.interface';
+import { ResolvedApiTarget, resolveApiTarget } from '../api/api-targets';
+import { copyHttpContext } from '../api/http-context';
+import { REQUEST_TIMEOUT } from '../error';
 
 /**
  * URLs that should be excluded from token injection
@@ -19,6 +26,15 @@ const EXCLUDED_URLS: string[] = [
   // Example: '/public/api', '/assets/'
 ];
 
+/**
+ * Token injection used when a target does not configure its own
+ */
+const DEFAULT_TOKEN_CONFIG: Required<ApiTargetTokenConfig> = {
+  header: 'Authorization',
+  scheme: 'Bearer',
+  excludedPaths: [],
+};
+
 /**
  * Check if URL should be excluded from token injection
  */
@@ -27,48 +43,95 @@ function shouldExclude(url: string): boolean {
 }
 
 /**
- * Keycloak Interceptor Function
- *
- * Injects the access token into outgoing HTTP requests.
+ * Resolve how the token is injected into a request, or null for none
  */
-export const keycloakInterceptor: HttpInterceptorFn = (
+function getTokenConfig(
   req: HttpRequest<unknown>,
-  next: HttpHandlerFn
-): Observable<HttpEvent<unknown>> => {
-  const keycloakService = inject(KeycloakService);
+  target: ResolvedApiTarget | null
+): Required<ApiTargetTokenConfig> | null {
+  if (shouldExclude(req.url)) {
+    return null;
+  }
 
-  // Skip if auth is disabled
-  if (!environment.enableAuth) {
-    return next(req);
+  const token = target?.config.token ?? true;
+  if (token === false) {
+    return null;
   }
 
-  // Skip token injection for excluded URLs
-  if (shouldExclude(req.url)) {
-    return next(req);
+  const config = { ...DEFAULT_TOKEN_CONFIG, ...(token === true ? {} : token) };
+  const requestPath = target?.path ?? '';
+  const isExcludedPath = config.excludedPaths.some(
+    (path) => requestPath === path || requestPath.startsWith(`${path.replace(/\/+$/, '')}/`)
+  );
+
+  return isExcludedPath ? null : config;
+}
+
+/**
+ * Apply the target's default headers and timeout where the request does not
+ * set its own (the timeout is enforced by timeoutInterceptor)
+ */
+function withTargetRules(req: HttpRequest<unknown>, target: ResolvedApiTarget | null): HttpRequest<unknown> {
+  const headers = Object.entries(target?.config.headers ?? {}).filter(([name]) => !req.headers.has(name));
+  const timeout = target?.config.timeout;
+
+  if (timeout && !req.context.has(REQUEST_TIMEOUT)) {
+    // The request's context may be shared with other requests: set the timeout on a copy
+    req = req.clone({ context: copyHttpContext(req.context).set(REQUEST_TIMEOUT, timeout) });
   }
 
-  // Skip if user is not authenticated
-  if (!keycloakService.isLoggedIn()) {
+  return headers.length > 0 ? req.clone({ setHeaders: Object.fromEntries(headers) }) : req;
+}
+
+/**
+ * Add the access token to a request, refreshing it first if needed
+ */
+function withToken(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  keycloakService: KeycloakService,
+  tokenConfig: Required<ApiTargetTokenConfig> | null
+): Observable<HttpEvent<unknown>> {
+  // Skip if auth is disabled, the target sends no token or the user is not authenticated
+  if (!environment.enableAuth || !tokenConfig || !keycloakService.isLoggedIn()) {
     return next(req);
   }
 
   // Update token if needed, then add to request
   return from(keycloakService.updateToken(30)).pipe(
-    switchMap((tokenRefreshed) => {
+    switchMap(() => {
       const token = keycloakService.getToken();
 
       if (!token) {
         return next(req);
       }
 
-      // Clone request and add Authorization header
+      // Clone request and add the token header
       const clonedReq = req.clone({
         setHeaders: {
-          Authorization: `Bearer ${token}`,
+          [tokenConfig.header]: tokenConfig.scheme ? `${tokenConfig.scheme} ${token}` : token,
         },
       });
 
       return next(clonedReq);
     })
   );
+}
+
+/**
+ * Keycloak Interceptor Function
+ *
+ * Injects the access token into outgoing HTTP requests and applies the
+ * API target rules.
+ */
+export const keycloakInterceptor: HttpInterceptorFn = (
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn
+): Observable<HttpEvent<unknown>> => {
+  const keycloakService = inject(KeycloakService);
+
+  const target = resolveApiTarget(req.url);
+  const targetReq = withTargetRules(req, target);
+
+  return withToken(targetReq, next, keycloakService, getTokenConfig(targetReq, target));
 };
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import Keycloak from 'keycloak-js';
+import { environment } from '../../../environments/environment';
+import { KeycloakService } from './keycloak.service';
+import { KeycloakClientRoles } from './models/keycloak-user.model';
+
+describe('KeycloakService', () => {
+  const clientId = environment.keycloak.clientId;
+  let service: KeycloakService;
+
+  beforeEach(() => {
+    service = TestBed.inject(KeycloakService);
+  });
+
+  /** Stand in for a signed-in Keycloak instance with these client roles */
+  function signIn(clientRoles: KeycloakClientRoles): void {
+    const resourceAccess = Object.fromEntries(
+      Object.entries(clientRoles).map(([client, roles]) => [client, { roles }])
+    );
+    const instance = new Keycloak({ url: 'http://localhost', realm: 'test', clientId });
+    instance.resourceAccess = resourceAccess;
+    instance.tokenParsed = { resource_access: resourceAccess };
+    (service as unknown as { keycloakInstance: Keycloak }).keycloakInstance = instance;
+  }
+
+  describe('client roles', () => {
+    it('should have none before Keycloak is initialized', () => {
+      expect(service.hasClientRole('manage-users')).toBeFalse();
+      expect(service.getClientRoles()).toEqual([]);
+    });
+
+    it("should check the roles of this app's client by default", () => {
+      signIn({ [clientId]: ['manage-users'], 'reports-api': ['export'] });
+
+      expect(service.hasClientRole('manage-users')).toBeTrue();
+      expect(service.hasClientRole('export')).toBeFalse();
+      expect(service.getClientRoles()).toEqual(['manage-users']);
+    });
+
+    it('should check the roles of another client', () => {
+      signIn({ 'reports-api': ['export'] });
+
+      expect(service.hasClientRole('export', 'reports-api')).toBeTrue();
+      expect(service.getClientRoles('reports-api')).toEqual(['export']);
+      expect(service.getClientRoles('billing-api')).toEqual([]);
+    });
+
+    it('should check any or all of several roles', () => {
+      signIn({ 'reports-api': ['view', 'export'] });
+
+      expect(service.hasAnyClientRole(['export', 'delete'], 'reports-api')).toBeTrue();
+      expect(service.hasAllClientRoles(['view', 'export'], 'reports-api')).toBeTrue();
+      expect(service.hasAllClientRoles(['export', 'delete'], 'reports-api')).toBeFalse();
+    });
+  });
+});
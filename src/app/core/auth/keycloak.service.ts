@@ -5,12 +5,18 @@
  * Handles initialization, login, logout, token management, and role checks.
  */
 
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import Keycloak from 'keycloak-js';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { environment } from '../../../environments/environment';
+import { ApiCacheService } from '../api/api-cache.service';
 import { KeycloakUser, KeycloakTokenParsed } from './models/keycloak-user.model';
 
+/**
+ * Client whose roles are checked when no client id is given
+ */
+const DEFAULT_CLIENT_ID = environment.keycloak.clientId;
+
 @Injectable({
   providedIn: 'root',
 })
@@ -18,6 +24,7 @@ export class KeycloakService {
   private keycloakInstance?: Keycloak;
   private isAuthenticatedSubject = new BehaviorSubject<boolean>(false);
   private userSubject = new BehaviorSubject<KeycloakUser | null>(null);
+  private apiCache = inject(ApiCacheService);
 
   public isAuthenticated$: Observable<boolean> = this.isAuthenticatedSubject.asObservable();
   public user$: Observable<KeycloakUser | null> = this.userSubject.asObservable();
@@ -100,8 +107,7 @@ export class KeycloakService {
     if (!this.keycloakInstance) {
       throw new Error('Keycloak not initialized');
     }
-    this.isAuthenticatedSubject.next(false);
-    this.userSubject.next(null);
+    this.clearAuth();
     return this.keycloakInstance.logout({
       redirectUri: redirectUri || window.location.origin,
     });
@@ -190,6 +196,45 @@ export class KeycloakService {
     return (this.keycloakInstance.tokenParsed as KeycloakTokenParsed).realm_access?.roles ?? [];
   }
 
+  /**
+   * Check if user has a specific client role (resource_access)
+   *
+   * @param clientId Keycloak client the role belongs to; defaults to this app's client
+   */
+  hasClientRole(role: string, clientId: string = DEFAULT_CLIENT_ID): boolean {
+    if (!this.keycloakInstance) {
+      return false;
+    }
+    return this.keycloakInstance.hasResourceRole(role, clientId);
+  }
+
+  /**
+   * Check if user has any of the specified client roles
+   */
+  hasAnyClientRole(roles: string[], clientId: string = DEFAULT_CLIENT_ID): boolean {
+    return roles.some((role) => this.hasClientRole(role, clientId));
+  }
+
+  /**
+   * Check if user has all of the specified client roles
+   */
+  hasAllClientRoles(roles: string[], clientId: string = DEFAULT_CLIENT_ID): boolean {
+    return roles.every((role) => this.hasClientRole(role, clientId));
+  }
+
+  /**
+   * Get user roles for a client
+   */
+  getClientRoles(clientId: string = DEFAULT_CLIENT_ID): string[] {
+    if (!this.keycloakInstance?.tokenParsed) {
+      return [];
+    }
+    return (
+      (this.keycloakInstance.tokenParsed as KeycloakTokenParsed).resource_access?.[clientId]
+        ?.roles ?? []
+    );
+  }
+
   /**
    * Get current user info
    */
@@ -260,8 +305,7 @@ export class KeycloakService {
     // Handle authentication logout
     this.keycloakInstance.onAuthLogout = () => {
       console.info('User logged out');
-      this.isAuthenticatedSubject.next(false);
-      this.userSubject.next(null);
+      this.clearAuth();
     };
   }
 
@@ -273,10 +317,11 @@ export class KeycloakService {
   }
 
   /**
-   * Clear authentication state
+   * Clear authentication state and the data cached for the user
    */
   clearAuth(): void {
     this.isAuthenticatedSubject.next(false);
     this.userSubject.next(null);
+    this.apiCache.clear();
   }
 }
@@ -4,6 +4,11 @@
  * Type definitions for Keycloak user information.
  */
 
+/**
+ * Client roles keyed by Keycloak client id, as in `resource_access`
+ */
+export type KeycloakClientRoles = Record<string, string[]>;
+
 export interface KeycloakUser {
   sub: string;
   email?: string;
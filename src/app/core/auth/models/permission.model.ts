@@ -0,0 +1,32 @@
+/**
+ * Permission Models
+ *
+ * Named permissions are granted by combinations of Keycloak roles, so
+ * components and guards check what a user may do rather than which roles
+ * they hold.
+ */
+
+import { KeycloakClientRoles } from './keycloak-user.model';
+
+/**
+ * A role combination: the user must hold every listed realm and client role
+ *
+ * A rule without roles grants the permission to any authenticated user.
+ */
+export interface PermissionRule {
+  roles?: string[];
+  clientRoles?: KeycloakClientRoles;
+}
+
+/**
+ * Permission name to the rules that grant it; any matching rule grants it
+ *
+ * @example
+ * {
+ *   'users.delete': [
+ *     { roles: ['admin'] },
+ *     { roles: ['manager'], clientRoles: { 'selfservices-app': ['delete-users'] } },
+ *   ],
+ * }
+ */
+export type PermissionMap = Record<string, PermissionRule[]>;
@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  ActivatedRouteSnapshot,
+  Data,
+  Router,
+  RouterStateSnapshot,
+  provideRouter,
+} from '@angular/router';
+import { environment } from '../../../environments/environment';
+import { KeycloakService } from './keycloak.service';
+import { permissionGuard } from './permission.guard';
+import { KeycloakServiceStub } from './testing/keycloak-service.stub';
+
+describe('permissionGuard', () => {
+  const state = { url: '/users/import' } as RouterStateSnapshot;
+  let keycloak: KeycloakServiceStub;
+  let router: Router;
+
+  beforeEach(() => {
+    keycloak = new KeycloakServiceStub();
+
+    TestBed.configureTestingModule({
+      providers: [provideRouter([]), { provide: KeycloakService, useValue: keycloak }],
+    });
+
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+    spyOn(keycloak, 'login').and.resolveTo();
+  });
+
+  function runGuard(data: Data): boolean {
+    const route = { data } as ActivatedRouteSnapshot;
+    return TestBed.runInInjectionContext(() => permissionGuard(route, state)) as boolean;
+  }
+
+  it('should send a signed-out user to login and back', () => {
+    expect(runGuard({ permissions: ['users.import'] })).toBeFalse();
+    expect(keycloak.login).toHaveBeenCalledWith(window.location.origin + state.url);
+  });
+
+  it('should allow a user with the permission', () => {
+    keycloak.signIn(['admin']);
+
+    expect(runGuard({ permissions: ['users.import'] })).toBeTrue();
+    expect(router.navigate).not.toHaveBeenCalled();
+  });
+
+  it('should send a user without the permission to the unauthorized page', () => {
+    keycloak.signIn(['user']);
+
+    expect(runGuard({ permissions: ['users.import'] })).toBeFalse();
+    expect(router.navigate).toHaveBeenCalledWith(['/unauthorized'], {
+      queryParams: { url: state.url },
+    });
+  });
+
+  it('should require every permission with requireAll', () => {
+    keycloak.signIn(['manager']);
+
+    expect(runGuard({ permissions: ['users.edit', 'users.delete'] })).toBeTrue();
+    expect(runGuard({ permissions: ['users.edit', 'users.delete'], requireAll: true })).toBeFalse();
+  });
+
+  describe('with authentication disabled', () => {
+    beforeEach(() => (environment.enableAuth = false));
+    afterEach(() => (environment.enableAuth = true));
+
+    it('should allow the route without logging in', () => {
+      expect(runGuard({ permissions: ['users.import'] })).toBeTrue();
+      expect(keycloak.login).not.toHaveBeenCalled();
+      expect(router.navigate).not.toHaveBeenCalled();
+    });
+  });
+});
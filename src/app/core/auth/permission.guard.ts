@@ -0,0 +1,95 @@
+/**
+ * Permission Guard
+ *
+ * Protects routes based on named permissions rather than roles.
+ * Lets every navigation through when authentication is disabled.
+ */
+
+import { inject } from '@angular/core';
+import {
+  CanActivateFn,
+  ActivatedRouteSnapshot,
+  Data,
+  RouterStateSnapshot,
+  Router,
+} from '@angular/router';
+import { environment } from '../../../environments/environment';
+import { KeycloakService } from './keycloak.service';
+import { PermissionService } from './permission.service';
+import { Permission } from './permissions';
+
+/**
+ * Permission Guard Function
+ *
+ * Checks if the user has the permissions required to access a route.
+ * Requires route data with a 'permissions' array.
+ *
+ * Usage in routes:
+ * ```typescript
+ * {
+ *   path: 'users/import',
+ *   component: UserImportComponent,
+ *   canActivate: [authGuard, permissionGuard],
+ *   data: {
+ *     permissions: ['users.import'],
+ *     requireAll: false  // Optional: require all permissions (default: false)
+ *   }
+ * }
+ * ```
+ */
+export const permissionGuard: CanActivateFn = (
+  route: ActivatedRouteSnapshot,
+  state: RouterStateSnapshot
+): boolean => {
+  const keycloakService = inject(KeycloakService);
+  const permissionService = inject(PermissionService);
+  const router = inject(Router);
+
+  // No Keycloak session or roles exist to check (e.g. with the mock API)
+  if (!environment.enableAuth) {
+    return true;
+  }
+
+  // Check if user is authenticated first
+  if (!keycloakService.isLoggedIn()) {
+    keycloakService.login(window.location.origin + state.url);
+    return false;
+  }
+
+  const requiredPermissions = route.data['permissions'] as Permission[] | undefined;
+
+  if (!requiredPermissions || requiredPermissions.length === 0) {
+    console.warn('PermissionGuard: No permissions specified in route data');
+    return true;
+  }
+
+  if (!hasRequiredPermissions(permissionService, route.data)) {
+    console.warn('PermissionGuard: User does not have required permissions', {
+      required: requiredPermissions,
+      requireAll: route.data['requireAll'] === true,
+    });
+
+    router.navigate(['/unauthorized'], { queryParams: { url: state.url } });
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Check the user against the permissions in route data, as permissionGuard
+ * does
+ *
+ * Returns true when the data requires no permissions.
+ */
+export function hasRequiredPermissions(permissionService: PermissionService, data: Data): boolean {
+  const permissions = (data['permissions'] as Permission[] | undefined) ?? [];
+
+  if (permissions.length === 0) {
+    return true;
+  }
+
+  return data['requireAll'] === true
+    ? permissionService.canAll(permissions)
+    : permissionService.canAny(permissions);
+}
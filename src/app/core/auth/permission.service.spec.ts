@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { environment } from '../../../environments/environment';
+import { KeycloakService } from './keycloak.service';
+import { PermissionService } from './permission.service';
+import { providePermissions } from './permissions';
+import { KeycloakServiceStub } from './testing/keycloak-service.stub';
+
+describe('PermissionService', () => {
+  let keycloak: KeycloakServiceStub;
+  let service: PermissionService;
+
+  beforeEach(() => {
+    keycloak = new KeycloakServiceStub();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: KeycloakService, useValue: keycloak },
+        providePermissions({ 'users.export': [{ clientRoles: { 'reports-api': ['export'] } }] }),
+      ],
+    });
+
+    service = TestBed.inject(PermissionService);
+  });
+
+  it('should deny every permission when signed out', () => {
+    expect(service.can('users.view')()).toBeFalse();
+    expect(service.can('users.delete')()).toBeFalse();
+  });
+
+  it('should grant permissions without roles to any signed-in user', () => {
+    keycloak.signIn();
+
+    expect(service.can('users.view')()).toBeTrue();
+    expect(service.can('users.create')()).toBeFalse();
+  });
+
+  it('should grant a permission when any of its rules matches', () => {
+    keycloak.signIn(['manager']);
+
+    expect(service.can('users.create')()).toBeTrue();
+    expect(service.can('users.edit')()).toBeTrue();
+    expect(service.can('users.delete')()).toBeFalse();
+  });
+
+  it('should check client roles', () => {
+    keycloak.signIn(['admin'], { 'reports-api': ['export'] });
+    expect(service.can('users.export')()).toBeTrue();
+
+    keycloak.signIn(['admin']);
+    expect(service.can('users.export')()).toBeFalse();
+  });
+
+  it('should update the signal on login and logout', () => {
+    const canDelete = service.can('users.delete');
+    expect(canDelete()).toBeFalse();
+
+    keycloak.signIn(['admin']);
+    expect(canDelete()).toBeTrue();
+
+    keycloak.signOut();
+    expect(canDelete()).toBeFalse();
+  });
+
+  it('should check any or all of several permissions', () => {
+    keycloak.signIn(['manager']);
+
+    expect(service.canAny(['users.delete', 'users.edit'])).toBeTrue();
+    expect(service.canAll(['users.delete', 'users.edit'])).toBeFalse();
+  });
+
+  describe('with authentication disabled', () => {
+    beforeEach(() => (environment.enableAuth = false));
+    afterEach(() => (environment.enableAuth = true));
+
+    it('should grant every permission', () => {
+      expect(service.can('users.delete')()).toBeTrue();
+      expect(service.canAll(['users.delete', 'users.import'])).toBeTrue();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Permission Service
+ *
+ * Resolves named permissions against the current user's Keycloak roles.
+ * With authentication disabled (enableAuth: false) every permission is
+ * granted, as there are no roles to check.
+ */
+
+import { Injectable, Signal, computed, inject, signal } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { environment } from '../../../environments/environment';
+import { KeycloakService } from './keycloak.service';
+import { PermissionRule } from './models/permission.model';
+import { PERMISSIONS, Permission } from './permissions';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PermissionService {
+  private keycloakService = inject(KeycloakService);
+  private permissions = inject(PERMISSIONS);
+
+  // Roles are read from the token; these signals re-evaluate permissions on
+  // login, logout and when the profile loads
+  private isAuthenticated = toSignal(this.keycloakService.isAuthenticated$, {
+    requireSync: true,
+  });
+  private user = toSignal(this.keycloakService.user$, { requireSync: true });
+
+  private cache = new Map<Permission, Signal<boolean>>();
+  private granted = signal(true).asReadonly();
+
+  /**
+   * Whether the current user has a permission, as a signal
+   *
+   * @example
+   * canDelete = this.permissionService.can('users.delete');
+   */
+  can(permission: Permission): Signal<boolean> {
+    if (!environment.enableAuth) {
+      return this.granted;
+    }
+
+    let allowed = this.cache.get(permission);
+
+    if (!allowed) {
+      allowed = computed(() => {
+        this.user();
+        return this.isAuthenticated() && this.check(permission);
+      });
+      this.cache.set(permission, allowed);
+    }
+
+    return allowed;
+  }
+
+  /**
+   * Whether the current user has any of the permissions
+   */
+  canAny(permissions: readonly Permission[]): boolean {
+    return permissions.some((permission) => this.can(permission)());
+  }
+
+  /**
+   * Whether the current user has all of the permissions
+   */
+  canAll(permissions: readonly Permission[]): boolean {
+    return permissions.every((permission) => this.can(permission)());
+  }
+
+  private check(permission: Permission): boolean {
+    const rules = this.permissions[permission];
+
+    if (!rules) {
+      console.warn(`PermissionService: Unknown permission '${permission}'`);
+      return false;
+    }
+
+    return rules.some((rule) => this.matches(rule));
+  }
+
+  private matches(rule: PermissionRule): boolean {
+    return (
+      this.keycloakService.hasAllRoles(rule.roles ?? []) &&
+      Object.entries(rule.clientRoles ?? {}).every(([clientId, roles]) =>
+        this.keycloakService.hasAllClientRoles(roles, clientId)
+      )
+    );
+  }
+}
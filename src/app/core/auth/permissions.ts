@@ -0,0 +1,44 @@
+/**
+ * Application Permissions
+ *
+ * The permissions the app checks and the roles that grant them. Change the
+ * role mapping here (or with providePermissions()) instead of in components.
+ */
+
+import { InjectionToken, Provider } from '@angular/core';
+import { PermissionMap, PermissionRule } from './models/permission.model';
+
+export const APP_PERMISSIONS = {
+  'users.view': [{}],
+  'users.create': [{ roles: ['admin'] }, { roles: ['manager'] }],
+  'users.edit': [{ roles: ['admin'] }, { roles: ['manager'] }],
+  'users.delete': [{ roles: ['admin'] }],
+  'users.import': [{ roles: ['admin'] }],
+  'users.export': [{ roles: ['admin'] }, { roles: ['manager'] }],
+} satisfies PermissionMap;
+
+export type Permission = keyof typeof APP_PERMISSIONS;
+
+/**
+ * Active permission to role mapping
+ */
+export const PERMISSIONS = new InjectionToken<Record<Permission, PermissionRule[]>>(
+  'PERMISSIONS',
+  {
+    providedIn: 'root',
+    factory: () => APP_PERMISSIONS,
+  }
+);
+
+/**
+ * Override the roles that grant some permissions
+ *
+ * @example
+ * // Let managers delete users in this deployment
+ * providePermissions({ 'users.delete': [{ roles: ['admin'] }, { roles: ['manager'] }] })
+ */
+export function providePermissions(
+  permissions: Partial<Record<Permission, PermissionRule[]>>
+): Provider[] {
+  return [{ provide: PERMISSIONS, useValue: { ...APP_PERMISSIONS, ...permissions } }];
+}
@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, Data, Router, RouterStateSnapshot } from '@angular/router';
+import { KeycloakService } from './keycloak.service';
+import { roleGuard } from './role.guard';
+import { KeycloakServiceStub } from './testing/keycloak-service.stub';
+
+describe('roleGuard', () => {
+  let keycloak: KeycloakServiceStub;
+  let navigate: jasmine.Spy;
+
+  beforeEach(() => {
+    keycloak = new KeycloakServiceStub();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: KeycloakService, useValue: keycloak }],
+    });
+
+    navigate = spyOn(TestBed.inject(Router), 'navigate').and.resolveTo(true);
+    spyOn(console, 'warn');
+  });
+
+  function canActivate(data: Data): boolean {
+    return TestBed.runInInjectionContext(() =>
+      roleGuard({ data } as ActivatedRouteSnapshot, { url: '/reports' } as RouterStateSnapshot)
+    ) as boolean;
+  }
+
+  it('should send signed-out users to the login page', () => {
+    const login = spyOn(keycloak, 'login');
+
+    expect(canActivate({ roles: ['admin'] })).toBeFalse();
+    expect(login).toHaveBeenCalled();
+  });
+
+  it('should allow any of the realm roles', () => {
+    keycloak.signIn(['manager']);
+
+    expect(canActivate({ roles: ['admin', 'manager'] })).toBeTrue();
+  });
+
+  it('should allow a user with one of the client roles', () => {
+    keycloak.signIn([], { 'reports-api': ['export'] });
+
+    expect(canActivate({ clientRoles: { 'reports-api': ['export', 'admin'] } })).toBeTrue();
+  });
+
+  it('should allow realm or client roles unless all are required', () => {
+    keycloak.signIn(['manager']);
+    const data = { roles: ['manager'], clientRoles: { 'reports-api': ['export'] } };
+
+    expect(canActivate(data)).toBeTrue();
+    expect(canActivate({ ...data, requireAll: true })).toBeFalse();
+  });
+
+  it('should require realm and client roles together when all are required', () => {
+    keycloak.signIn(['manager'], { 'reports-api': ['export'] });
+
+    expect(
+      canActivate({
+        roles: ['manager'],
+        clientRoles: { 'reports-api': ['export'] },
+        requireAll: true,
+      })
+    ).toBeTrue();
+  });
+
+  it('should redirect users without the roles to the unauthorized page', () => {
+    keycloak.signIn(['user'], { 'reports-api': ['view'] });
+
+    expect(canActivate({ clientRoles: { 'reports-api': ['export'] } })).toBeFalse();
+    expect(navigate).toHaveBeenCalledWith(['/unauthorized'], {
+      queryParams: { url: '/reports' },
+    });
+  });
+});
@@ -6,14 +6,22 @@
  */
 
 import { inject } from '@angular/core';
-import { CanActivateFn, ActivatedRouteSnapshot, RouterStateSnapshot, Router } from '@angular/router';
+import {
+  CanActivateFn,
+  ActivatedRouteSnapshot,
+  Data,
+  RouterStateSnapshot,
+  Router,
+} from '@angular/router';
 import { KeycloakService } from './keycloak.service';
+import { KeycloakClientRoles } from './models/keycloak-user.model';
 
 /**
  * Role Guard Function
  *
  * Checks if the user has the required roles to access a route.
- * Requires route data with 'roles' array.
+ * Requires route data with a 'roles' array (realm roles) and/or a
+ * 'clientRoles' map of client id to roles (client roles from resource_access).
  *
  * Usage in routes:
  * ```typescript
@@ -23,6 +31,7 @@ import { KeycloakService } from './keycloak.service';
  *   canActivate: [authGuard, roleGuard],
  *   data: {
  *     roles: ['admin', 'superadmin'],
+ *     clientRoles: { 'selfservices-app': ['manage-users'] },  // Optional
  *     requireAll: false  // Optional: require all roles (default: false)
  *   }
  * }
@@ -41,33 +50,78 @@ export const roleGuard: CanActivateFn = (
     return false;
   }
 
-  // Get required roles from route data
-  const requiredRoles = route.data['roles'] as string[] | undefined;
+  const { roles: requiredRoles, clientRoles: requiredClientRoles, requireAll } =
+    getRoleRequirements(route.data);
 
-  if (!requiredRoles || requiredRoles.length === 0) {
+  if (requiredRoles.length === 0 && requiredClientRoles.length === 0) {
     console.warn('RoleGuard: No roles specified in route data');
     return true;
   }
 
-  // Check if all roles are required or just one
-  const requireAll = route.data['requireAll'] === true;
-
-  // Check user roles
-  const hasAccess = requireAll
-    ? keycloakService.hasAllRoles(requiredRoles)
-    : keycloakService.hasAnyRole(requiredRoles);
+  const hasAccess = hasRequiredRoles(keycloakService, route.data);
 
   if (!hasAccess) {
     console.warn('RoleGuard: User does not have required roles', {
       required: requiredRoles,
+      requiredClientRoles: Object.fromEntries(requiredClientRoles),
       user: keycloakService.getUserRoles(),
+      userClientRoles: Object.fromEntries(
+        requiredClientRoles.map(([clientId]) => [
+          clientId,
+          keycloakService.getClientRoles(clientId),
+        ])
+      ),
       requireAll,
     });
 
     // Redirect to unauthorized page or home
-    router.navigate(['/unauthorized']);
+    router.navigate(['/unauthorized'], { queryParams: { url: state.url } });
     return false;
   }
 
   return true;
 };
+
+/**
+ * Roles required by route data: 'roles', 'clientRoles' and 'requireAll'
+ */
+function getRoleRequirements(data: Data): {
+  roles: string[];
+  clientRoles: [clientId: string, roles: string[]][];
+  requireAll: boolean;
+} {
+  return {
+    roles: (data['roles'] as string[] | undefined) ?? [],
+    clientRoles: Object.entries(
+      (data['clientRoles'] as KeycloakClientRoles | undefined) ?? {}
+    ).filter(([, roles]) => roles.length > 0),
+    requireAll: data['requireAll'] === true,
+  };
+}
+
+/**
+ * Check the user against the roles in route data, as roleGuard does
+ *
+ * Returns true when the data requires no roles.
+ */
+export function hasRequiredRoles(keycloakService: KeycloakService, data: Data): boolean {
+  const { roles, clientRoles, requireAll } = getRoleRequirements(data);
+
+  // Check realm roles and the roles of each client
+  const checks = [
+    ...(roles.length > 0
+      ? [requireAll ? keycloakService.hasAllRoles(roles) : keycloakService.hasAnyRole(roles)]
+      : []),
+    ...clientRoles.map(([clientId, required]) =>
+      requireAll
+        ? keycloakService.hasAllClientRoles(required, clientId)
+        : keycloakService.hasAnyClientRole(required, clientId)
+    ),
+  ];
+
+  if (checks.length === 0) {
+    return true;
+  }
+
+  return requireAll ? checks.every(Boolean) : checks.some(Boolean);
+}
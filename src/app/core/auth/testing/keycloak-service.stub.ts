@@ -0,0 +1,92 @@
+/**
+ * KeycloakService Stub
+ *
+ * Stand-in for KeycloakService in unit tests: sign a user in with the roles
+ * a test needs, without a Keycloak server.
+ *
+ * @example
+ * const keycloak = new KeycloakServiceStub();
+ * TestBed.configureTestingModule({
+ *   providers: [{ provide: KeycloakService, useValue: keycloak }],
+ * });
+ * keycloak.signIn(['admin']);
+ */
+
+import { BehaviorSubject } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+import { KeycloakClientRoles, KeycloakUser } from '../models/keycloak-user.model';
+
+const DEFAULT_CLIENT_ID = environment.keycloak.clientId;
+
+export class KeycloakServiceStub {
+  private realmRoles: string[] = [];
+  private clientRoles: KeycloakClientRoles = {};
+  private readonly isAuthenticatedSubject = new BehaviorSubject(false);
+  private readonly userSubject = new BehaviorSubject<KeycloakUser | null>(null);
+
+  readonly isAuthenticated$ = this.isAuthenticatedSubject.asObservable();
+  readonly user$ = this.userSubject.asObservable();
+
+  /**
+   * Sign a user in with realm roles and client roles
+   */
+  signIn(realmRoles: string[] = [], clientRoles: KeycloakClientRoles = {}): void {
+    this.realmRoles = realmRoles;
+    this.clientRoles = clientRoles;
+    this.isAuthenticatedSubject.next(true);
+    this.userSubject.next({
+      sub: 'test-user',
+      preferred_username: 'test',
+      realm_access: { roles: realmRoles },
+    });
+  }
+
+  signOut(): void {
+    this.realmRoles = [];
+    this.clientRoles = {};
+    this.isAuthenticatedSubject.next(false);
+    this.userSubject.next(null);
+  }
+
+  isLoggedIn(): boolean {
+    return this.isAuthenticatedSubject.value;
+  }
+
+  async login(_redirectUri?: string): Promise<void> {}
+
+  getUser(): KeycloakUser | null {
+    return this.userSubject.value;
+  }
+
+  hasRole(role: string): boolean {
+    return this.isLoggedIn() && this.realmRoles.includes(role);
+  }
+
+  hasAnyRole(roles: string[]): boolean {
+    return roles.some((role) => this.hasRole(role));
+  }
+
+  hasAllRoles(roles: string[]): boolean {
+    return roles.every((role) => this.hasRole(role));
+  }
+
+  getUserRoles(): string[] {
+    return this.realmRoles;
+  }
+
+  hasClientRole(role: string, clientId = DEFAULT_CLIENT_ID): boolean {
+    return this.getClientRoles(clientId).includes(role);
+  }
+
+  hasAnyClientRole(roles: string[], clientId = DEFAULT_CLIENT_ID): boolean {
+    return roles.some((role) => this.hasClientRole(role, clientId));
+  }
+
+  hasAllClientRoles(roles: string[], clientId = DEFAULT_CLIENT_ID): boolean {
+    return roles.every((role) => this.hasClientRole(role, clientId));
+  }
+
+  getClientRoles(clientId = DEFAULT_CLIENT_ID): string[] {
+    return this.isLoggedIn() ? (this.clientRoles[clientId] ?? []) : [];
+  }
+}
@@ -2,6 +2,7 @@ import { ErrorHandler, Injectable, inject, NgZone } from '@angular/core';
 import { ErrorService } from '../services/error.service';
 import { ErrorLoggingService } from '../services/error-logging.service';
 import { AppError } from '../models/error.model';
+import { ToastService } from '../../notifications/services/toast.service';
 
 /**
  * GlobalErrorHandler
@@ -11,11 +12,14 @@ import { AppError } from '../models/error.model';
  * - Runtime errors in components
  * - Template errors
  * - Lifecycle hook errors
+ *
+ * Each error is logged and shown to the user with its reference code.
  */
 @Injectable()
 export class GlobalErrorHandler implements ErrorHandler {
   private readonly errorService = inject(ErrorService);
   private readonly loggingService = inject(ErrorLoggingService);
+  private readonly toastService = inject(ToastService);
   private readonly zone = inject(NgZone);
 
   handleError(error: unknown): void {
@@ -33,6 +37,7 @@ export class GlobalErrorHandler implements ErrorHandler {
     if (this.isAppError(unwrappedError)) {
       this.loggingService.log(unwrappedError);
       this.logToConsole(unwrappedError);
+      this.notify(unwrappedError);
       return;
     }
 
@@ -46,6 +51,22 @@ export class GlobalErrorHandler implements ErrorHandler {
 
     // Always log to console in development
     this.logToConsole(appError);
+
+    this.notify(appError);
+  }
+
+  /**
+   * Show the error with its reference code
+   *
+   * Info errors (e.g. a request saved in the offline outbox) were already
+   * announced where they were raised.
+   */
+  private notify(appError: AppError): void {
+    if (appError.severity === 'info') {
+      return;
+    }
+
+    this.zone.run(() => this.toastService.showError(appError));
   }
 
   private unwrapError(error: unknown): unknown {
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { environment } from '../../../../environments/environment';
+import { CORRELATION_ID_HEADER, correlationInterceptor } from './correlation.interceptor';
+
+describe('correlationInterceptor', () => {
+  const url = `${environment.apiUrl}/items`;
+  let http: HttpClient;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([correlationInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  it('should add a new correlation ID to every API request', () => {
+    http.get(url).subscribe();
+    http.get(url).subscribe();
+
+    const [first, second] = controller.match(url);
+    const ids = [first, second].map((req) => req.request.headers.get(CORRELATION_ID_HEADER));
+    expect(ids[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(ids[1]).not.toBe(ids[0]);
+    first.flush({});
+    second.flush({});
+  });
+
+  it('should add the header to requests of a named API target', () => {
+    const targetUrl = `${environment.apiTargets.hr.url}/leaves`;
+    http.get(targetUrl).subscribe();
+
+    const req = controller.expectOne(targetUrl);
+    expect(req.request.headers.has(CORRELATION_ID_HEADER)).toBeTrue();
+    req.flush([]);
+  });
+
+  it('should keep a correlation ID set by the caller', () => {
+    http.get(url, { headers: { [CORRELATION_ID_HEADER]: 'abc' } }).subscribe();
+
+    const req = controller.expectOne(url);
+    expect(req.request.headers.get(CORRELATION_ID_HEADER)).toBe('abc');
+    req.flush({});
+  });
+
+  it('should leave requests outside the API untouched', () => {
+    http.get('/assets/i18n/en.json').subscribe();
+
+    const req = controller.expectOne('/assets/i18n/en.json');
+    expect(req.request.headers.has(CORRELATION_ID_HEADER)).toBeFalse();
+    req.flush({});
+  });
+});
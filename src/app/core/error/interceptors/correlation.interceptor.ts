@@ -0,0 +1,39 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { resolveApiTarget } from '../../api/api-targets';
+
+/**
+ * Request header carrying the correlation ID
+ */
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+/**
+ * Generate a correlation ID (UUID v4)
+ */
+export function generateCorrelationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * HTTP Correlation Interceptor
+ *
+ * Functional interceptor that adds an X-Correlation-ID header to every API
+ * request (requests outside the API targets are left untouched), unless the
+ * request sets one itself. errorInterceptor records the ID in the
+ * AppError context so support can match an error to the backend logs.
+ *
+ * Register it before retryInterceptor so that retries keep the same ID.
+ */
+export const correlationInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.headers.has(CORRELATION_ID_HEADER) || !resolveApiTarget(req.url)) {
+    return next(req);
+  }
+
+  return next(req.clone({ setHeaders: { [CORRELATION_ID_HEADER]: generateCorrelationId() } }));
+};
@@ -0,0 +1,112 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { firstValueFrom } from 'rxjs';
+import { AppError } from '../models/error.model';
+import { ErrorLoggingService } from '../services/error-logging.service';
+import { CORRELATION_ID_HEADER } from './correlation.interceptor';
+import { errorInterceptor } from './error.interceptor';
+
+describe('errorInterceptor', () => {
+  const url = '/api/items';
+  let http: HttpClient;
+  let controller: HttpTestingController;
+  let log: jasmine.Spy;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([errorInterceptor])),
+        provideHttpClientTesting(),
+        importProvidersFrom(TranslateModule.forRoot()),
+      ],
+    });
+
+    log = spyOn(TestBed.inject(ErrorLoggingService), 'log');
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  async function failure(request: Promise<unknown>): Promise<unknown> {
+    try {
+      await request;
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the request to fail');
+  }
+
+  it('should turn an HTTP error into a logged AppError', async () => {
+    const result = failure(firstValueFrom(http.get(url)));
+
+    controller
+      .expectOne(url)
+      .flush({ message: 'Item is locked' }, { status: 423, statusText: 'Locked' });
+    const error = (await result) as AppError;
+
+    expect(error.code).toBe('HTTP_423');
+    expect(error.message).toBe('Item is locked');
+    expect(log).toHaveBeenCalledWith(error);
+  });
+
+  it('should record the correlation ID and the trace ID from the response headers', async () => {
+    const result = failure(
+      firstValueFrom(http.get(url, { headers: { [CORRELATION_ID_HEADER]: 'c-1' } }))
+    );
+
+    controller.expectOne(url).flush(null, {
+      status: 500,
+      statusText: 'Error',
+      headers: { 'X-Request-Id': 'r-1' },
+    });
+    const error = (await result) as AppError;
+
+    expect(error.context?.correlationId).toBe('c-1');
+    expect(error.context?.traceId).toBe('r-1');
+  });
+
+  it('should read the trace ID from a problem details body', async () => {
+    const result = failure(firstValueFrom(http.get(url)));
+
+    controller
+      .expectOne(url)
+      .flush({ title: 'Error', traceId: 't-1' }, { status: 500, statusText: 'Error' });
+    const error = (await result) as AppError;
+
+    expect(error.context?.traceId).toBe('t-1');
+  });
+
+  it('should parse the JSON error body of a blob request', async () => {
+    const result = failure(firstValueFrom(http.get(url, { responseType: 'blob' })));
+
+    const body = new Blob([JSON.stringify({ message: 'Report not ready' })], {
+      type: 'application/json',
+    });
+    controller.expectOne(url).flush(body, { status: 409, statusText: 'Conflict' });
+    const error = (await result) as AppError;
+
+    expect(error.code).toBe('HTTP_409');
+    expect(error.message).toBe('Report not ready');
+  });
+
+  it('should pass errors of excluded URLs through unchanged', async () => {
+    const result = failure(firstValueFrom(http.get('/assets/i18n/en.json')));
+
+    controller
+      .expectOne('/assets/i18n/en.json')
+      .flush(null, { status: 404, statusText: 'Not Found' });
+    const error = await result;
+
+    expect(error).toBeInstanceOf(HttpErrorResponse);
+    expect(log).not.toHaveBeenCalled();
+  });
+});
@@ -4,10 +4,11 @@ import {
   HttpErrorResponse,
   HttpRequest,
 } from '@angular/common/http';
-import { catchError, throwError } from 'rxjs';
+import { Observable, catchError, from, map, of, switchMap, throwError } from 'rxjs';
 import { ErrorService } from '../services/error.service';
 import { ErrorLoggingService } from '../services/error-logging.service';
 import { DEFAULT_ERROR_CONFIG } from '../models/error.model';
+import { CORRELATION_ID_HEADER } from './correlation.interceptor';
 
 /**
  * URLs to exclude from error interception
@@ -25,6 +26,11 @@ function shouldExcludeUrl(url: string | null): boolean {
   return EXCLUDED_URL_PATTERNS.some(pattern => pattern.test(url));
 }
 
+/**
+ * Response headers that may carry the server's trace ID, in order of preference
+ */
+const TRACE_ID_HEADERS: string[] = ['X-Trace-Id', 'X-Request-Id', 'traceresponse'];
+
 /**
  * Extract request context for logging
  */
@@ -35,15 +41,64 @@ function getRequestContext(req: HttpRequest<unknown>) {
     headers: Object.fromEntries(
       req.headers.keys().map(key => [key, req.headers.get(key) || ''])
     ),
+    correlationId: req.headers.get(CORRELATION_ID_HEADER) ?? undefined,
   };
 }
 
+/**
+ * Read the server's trace ID from the response headers or the error body
+ * (e.g. `traceId` of ASP.NET problem details)
+ */
+function getTraceId(error: unknown): string | undefined {
+  if (!(error instanceof HttpErrorResponse)) return undefined;
+
+  for (const header of TRACE_ID_HEADERS) {
+    const value = error.headers?.get(header);
+    if (value) return value;
+  }
+
+  const traceId = error.error?.traceId ?? error.error?.error?.traceId;
+  return typeof traceId === 'string' ? traceId : undefined;
+}
+
+/**
+ * Parse error bodies of blob requests (downloads) so that the server
+ * message reaches ErrorService like for JSON requests
+ */
+function readErrorBody(error: HttpErrorResponse): Observable<HttpErrorResponse> {
+  if (!(error instanceof HttpErrorResponse) || !(error.error instanceof Blob)) {
+    return of(error);
+  }
+
+  return from(error.error.text()).pipe(
+    map((text) => {
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON: keep the raw text
+      }
+
+      return new HttpErrorResponse({
+        error: body,
+        headers: error.headers,
+        status: error.status,
+        statusText: error.statusText,
+        url: error.url ?? undefined,
+      });
+    }),
+    catchError(() => of(error))
+  );
+}
+
 /**
  * HTTP Error Interceptor
  *
  * Functional interceptor that:
  * - Catches HTTP errors
- * - Transforms them into structured AppErrors
+ * - Reads blob error bodies (downloads) as JSON/text
+ * - Transforms them (and timeouts from timeoutInterceptor) into structured AppErrors
+ * - Records the correlation ID and the server's trace ID in the error context
  * - Logs errors via the logging service
  * - Re-throws for downstream handling
  */
@@ -58,16 +113,23 @@ export const errorInterceptor: HttpInterceptorFn = (req, next) => {
         return throwError(() => error);
       }
 
-      // Create structured error
-      const appError = errorService.createAppError(error, getRequestContext(req));
+      return readErrorBody(error).pipe(
+        switchMap((httpError) => {
+          // Create structured error
+          const appError = errorService.createAppError(httpError, {
+            ...getRequestContext(req),
+            traceId: getTraceId(httpError),
+          });
 
-      // Log the error
-      if (DEFAULT_ERROR_CONFIG.enableLogging) {
-        loggingService.log(appError);
-      }
+          // Log the error
+          if (DEFAULT_ERROR_CONFIG.enableLogging) {
+            loggingService.log(appError);
+          }
 
-      // Re-throw for component/effect handling
-      return throwError(() => appError);
+          // Re-throw for component/effect handling
+          return throwError(() => appError);
+        })
+      );
     })
   );
 };
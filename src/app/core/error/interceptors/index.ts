@@ -1 +1,4 @@
 export * from './error.interceptor';
+export * from './retry.interceptor';
+export * from './timeout.interceptor';
+export * from './correlation.interceptor';
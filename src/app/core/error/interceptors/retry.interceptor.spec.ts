@@ -0,0 +1,114 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { DEFAULT_RETRY_CONFIG } from '../models/error.model';
+import { RETRY_CONFIG, retryInterceptor } from './retry.interceptor';
+
+describe('retryInterceptor', () => {
+  const url = '/api/items';
+  let http: HttpClient;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  function fail(status: number, headers: Record<string, string> = {}): void {
+    controller.expectOne(url).flush(null, { status, statusText: 'Error', headers });
+  }
+
+  it('should retry a retryable status and emit the successful response', fakeAsync(() => {
+    let body: unknown;
+    http.get(url).subscribe((response) => (body = response));
+
+    fail(503);
+    tick(DEFAULT_RETRY_CONFIG.initialDelay);
+    controller.expectOne(url).flush({ ok: true });
+
+    expect(body).toEqual({ ok: true });
+  }));
+
+  it('should give up after maxRetries and rethrow the last error', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    const context = new HttpContext().set(RETRY_CONFIG, { maxRetries: 2, initialDelay: 100 });
+    http.get(url, { context }).subscribe({ error: (e) => (error = e) });
+
+    fail(502);
+    tick(100);
+    fail(503);
+    tick(200);
+    fail(504);
+
+    expect(error?.status).toBe(504);
+  }));
+
+  it('should not retry a status that is not retryable', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    fail(404);
+    tick(DEFAULT_RETRY_CONFIG.maxDelay);
+
+    controller.expectNone(url);
+    expect(error?.status).toBe(404);
+  }));
+
+  it('should not retry a method that is not idempotent', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.post(url, {}).subscribe({ error: (e) => (error = e) });
+
+    fail(503);
+    tick(DEFAULT_RETRY_CONFIG.maxDelay);
+
+    controller.expectNone(url);
+    expect(error?.status).toBe(503);
+  }));
+
+  it('should not retry when disabled for the request', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    const context = new HttpContext().set(RETRY_CONFIG, false);
+    http.get(url, { context }).subscribe({ error: (e) => (error = e) });
+
+    fail(503);
+    tick(DEFAULT_RETRY_CONFIG.maxDelay);
+
+    controller.expectNone(url);
+    expect(error?.status).toBe(503);
+  }));
+
+  it('should wait for Retry-After before retrying', fakeAsync(() => {
+    http.get(url).subscribe();
+
+    fail(429, { 'Retry-After': '2' });
+    tick(1999);
+    controller.expectNone(url);
+
+    tick(1);
+    controller.expectOne(url).flush({});
+  }));
+
+  it('should not retry when Retry-After exceeds maxDelay', fakeAsync(() => {
+    let error: HttpErrorResponse | undefined;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    fail(503, { 'Retry-After': String(DEFAULT_RETRY_CONFIG.maxDelay / 1000 + 1) });
+
+    expect(error?.status).toBe(503);
+  }));
+});
@@ -0,0 +1,119 @@
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpInterceptorFn,
+  HttpRequest,
+} from '@angular/common/http';
+import { retry, throwError, timer } from 'rxjs';
+import { DEFAULT_RETRY_CONFIG, HttpErrorCode, RetryConfig } from '../models/error.model';
+
+/**
+ * Per-request retry override
+ *
+ * - `false` disables retrying for the request
+ * - a partial config is merged over DEFAULT_RETRY_CONFIG
+ *
+ * Usually set through ApiRequestOptions.retry rather than directly.
+ */
+export const RETRY_CONFIG = new HttpContextToken<Partial<RetryConfig> | false>(() => ({}));
+
+/**
+ * Status codes for which the server may send a Retry-After header
+ */
+const RETRY_AFTER_STATUS_CODES: number[] = [
+  HttpErrorCode.TooManyRequests,
+  HttpErrorCode.ServiceUnavailable,
+];
+
+/**
+ * Resolve the effective retry configuration for a request
+ */
+function resolveRetryConfig(req: HttpRequest<unknown>): RetryConfig | null {
+  const override = req.context.get(RETRY_CONFIG);
+
+  if (override === false) return null;
+
+  const config = { ...DEFAULT_RETRY_CONFIG, ...override };
+
+  if (config.maxRetries <= 0) return null;
+  if (!config.retryableMethods.includes(req.method.toUpperCase())) return null;
+
+  return config;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+function parseRetryAfter(error: HttpErrorResponse): number | null {
+  if (!RETRY_AFTER_STATUS_CODES.includes(error.status)) return null;
+
+  const header = error.headers?.get('Retry-After');
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Exponential backoff with jitter
+ *
+ * Half of the delay is fixed and half is randomised so that clients
+ * failing at the same moment do not retry in lockstep.
+ */
+function computeBackoff(config: RetryConfig, attempt: number): number {
+  const exponential = config.initialDelay * Math.pow(config.backoffMultiplier, attempt - 1);
+  const capped = Math.min(config.maxDelay, exponential);
+  return capped / 2 + Math.random() * (capped / 2);
+}
+
+/**
+ * HTTP Retry Interceptor
+ *
+ * Functional interceptor that:
+ * - Retries idempotent requests failing with a retryable status code
+ * - Waits with exponential backoff and jitter between attempts
+ * - Honours Retry-After headers on 429/503 (up to maxDelay)
+ * - Respects per-request overrides via the RETRY_CONFIG context token
+ *
+ * Register it after errorInterceptor so that errors are only transformed
+ * and logged once all attempts are exhausted.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const config = resolveRetryConfig(req);
+
+  if (!config) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: config.maxRetries,
+      delay: (error: unknown, attempt: number) => {
+        if (
+          !(error instanceof HttpErrorResponse) ||
+          !config.retryableStatusCodes.includes(error.status)
+        ) {
+          return throwError(() => error);
+        }
+
+        const retryAfter = parseRetryAfter(error);
+
+        // The server asked us to wait longer than we are willing to
+        if (retryAfter !== null && retryAfter > config.maxDelay) {
+          return throwError(() => error);
+        }
+
+        return timer(retryAfter ?? computeBackoff(config, attempt));
+      },
+    })
+  );
+};
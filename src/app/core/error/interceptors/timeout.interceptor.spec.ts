@@ -0,0 +1,73 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TimeoutError } from 'rxjs';
+import { DEFAULT_TIMEOUT, REQUEST_TIMEOUT, timeoutInterceptor } from './timeout.interceptor';
+
+describe('timeoutInterceptor', () => {
+  const url = '/api/items';
+  let http: HttpClient;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([timeoutInterceptor])),
+        provideHttpClientTesting(),
+        { provide: DEFAULT_TIMEOUT, useValue: 1000 },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  it('should fail with the timeout after the default timeout', fakeAsync(() => {
+    let error: unknown;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+    const request = controller.expectOne(url);
+
+    tick(999);
+    expect(error).toBeUndefined();
+
+    tick(1);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).info?.meta).toEqual({ timeout: 1000 });
+    expect(request.cancelled).toBeTrue();
+  }));
+
+  it('should use the timeout set on the request', fakeAsync(() => {
+    let error: unknown;
+    const context = new HttpContext().set(REQUEST_TIMEOUT, 200);
+    http.get(url, { context }).subscribe({ error: (e) => (error = e) });
+    controller.expectOne(url);
+
+    tick(200);
+
+    expect((error as TimeoutError).info?.meta).toEqual({ timeout: 200 });
+  }));
+
+  it('should not time out when disabled for the request', fakeAsync(() => {
+    let body: unknown;
+    const context = new HttpContext().set(REQUEST_TIMEOUT, false);
+    http.get(url, { context }).subscribe((response) => (body = response));
+    const request = controller.expectOne(url);
+
+    tick(60000);
+    request.flush({ ok: true });
+
+    expect(body).toEqual({ ok: true });
+  }));
+
+  it('should let a response received in time through', fakeAsync(() => {
+    let body: unknown;
+    http.get(url).subscribe((response) => (body = response));
+
+    tick(500);
+    controller.expectOne(url).flush({ ok: true });
+
+    expect(body).toEqual({ ok: true });
+  }));
+});
@@ -0,0 +1,49 @@
+import { HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { timeout } from 'rxjs';
+import { DEFAULT_REQUEST_TIMEOUT } from '../models/error.model';
+
+/**
+ * Default timeout (ms) of every request
+ *
+ * @example
+ * { provide: DEFAULT_TIMEOUT, useValue: 20000 }
+ */
+export const DEFAULT_TIMEOUT = new InjectionToken<number>('DEFAULT_TIMEOUT', {
+  providedIn: 'root',
+  factory: () => DEFAULT_REQUEST_TIMEOUT,
+});
+
+/**
+ * Per-request timeout override
+ *
+ * - a number of milliseconds replaces the default
+ * - `false` disables the timeout (long downloads, streaming, ...)
+ *
+ * Usually set through ApiRequestOptions.timeout or the API target's
+ * `timeout` rather than directly.
+ */
+export const REQUEST_TIMEOUT = new HttpContextToken<number | false | null>(() => null);
+
+/**
+ * HTTP Timeout Interceptor
+ *
+ * Functional interceptor that fails requests when nothing (response or
+ * progress event) is received within the timeout. The rxjs TimeoutError is
+ * turned into an HTTP_TIMEOUT AppError by errorInterceptor.
+ *
+ * Register it after errorInterceptor and before retryInterceptor, so the
+ * error is transformed and logged once. The timer restarts on every event,
+ * and each retry attempt emits one when it is sent, so the timeout applies
+ * per attempt rather than to the request as a whole.
+ */
+export const timeoutInterceptor: HttpInterceptorFn = (req, next) => {
+  const override = req.context.get(REQUEST_TIMEOUT);
+  const ms = override ?? inject(DEFAULT_TIMEOUT);
+
+  if (ms === false || ms <= 0) {
+    return next(req);
+  }
+
+  return next(req).pipe(timeout({ each: ms, meta: { timeout: ms } }));
+};
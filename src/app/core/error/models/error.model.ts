@@ -13,6 +13,7 @@ export enum HttpErrorCode {
   Forbidden = 403,
   NotFound = 404,
   MethodNotAllowed = 405,
+  RequestTimeout = 408,
   Conflict = 409,
   UnprocessableEntity = 422,
   TooManyRequests = 429,
@@ -37,6 +38,7 @@ export type ErrorCategory =
   | 'validation'
   | 'server'
   | 'client'
+  | 'contract'
   | 'unknown';
 
 /**
@@ -68,6 +70,22 @@ export interface ErrorContext {
   stack?: string;
   componentName?: string;
   actionType?: string;
+  contractViolations?: ContractViolation[];
+  /** Timeout (ms) that expired, for HTTP_TIMEOUT errors */
+  timeout?: number;
+  /** X-Correlation-ID sent with the request */
+  correlationId?: string;
+  /** Trace ID returned by the server (response header or body) */
+  traceId?: string;
+}
+
+/**
+ * Mismatch between a response and its declared contract
+ */
+export interface ContractViolation {
+  /** Location of the offending value, e.g. `$.data[0].email` */
+  path: string;
+  message: string;
 }
 
 /**
@@ -85,6 +103,20 @@ export interface HttpErrorPayload {
   };
 }
 
+/**
+ * Failure envelope returned by the API
+ * (structurally matches ApiResponse with success: false and ApiError)
+ */
+export interface ApiFailureEnvelope {
+  success: false;
+  message?: string;
+  error?: {
+    code?: string;
+    message?: string;
+    details?: unknown;
+  };
+}
+
 /**
  * Validation error structure
  */
@@ -134,3 +166,39 @@ export const DEFAULT_ERROR_CONFIG: ErrorHandlerConfig = {
   retryableStatusCodes: [408, 429, 502, 503, 504],
   excludedUrls: [],
 };
+
+/**
+ * Retry configuration for transient HTTP failures
+ */
+export interface RetryConfig {
+  /** Maximum number of retry attempts (0 disables retrying) */
+  maxRetries: number;
+  /** Base delay before the first retry (ms) */
+  initialDelay: number;
+  /** Upper bound for a single backoff delay, including Retry-After (ms) */
+  maxDelay: number;
+  /** Growth factor applied to the delay after each attempt */
+  backoffMultiplier: number;
+  /** Status codes considered transient */
+  retryableStatusCodes: number[];
+  /** HTTP methods that are safe to repeat */
+  retryableMethods: string[];
+}
+
+/**
+ * Default retry configuration
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  initialDelay: 500,
+  maxDelay: 10000,
+  backoffMultiplier: 2,
+  retryableStatusCodes: DEFAULT_ERROR_CONFIG.retryableStatusCodes,
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
+/**
+ * Default request timeout (ms), applied when nothing is received for that
+ * long. Override per app with DEFAULT_TIMEOUT or per request.
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
@@ -1,13 +1,17 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpErrorResponse } from '@angular/common/http';
 import { TranslateService } from '@ngx-translate/core';
+import { TimeoutError } from 'rxjs';
 import {
   AppError,
   ErrorCategory,
   ErrorSeverity,
   ErrorContext,
+  ContractViolation,
+  ApiFailureEnvelope,
   HttpErrorCode,
   ValidationError,
+  DEFAULT_ERROR_CONFIG,
 } from '../models/error.model';
 
 /**
@@ -35,6 +39,10 @@ export class ErrorService {
       return this.fromHttpError(error, id, timestamp, context);
     }
 
+    if (error instanceof TimeoutError) {
+      return this.fromTimeoutError(error, id, timestamp, context);
+    }
+
     if (error instanceof Error) {
       return this.fromNativeError(error, id, timestamp, context);
     }
@@ -42,6 +50,120 @@ export class ErrorService {
     return this.fromUnknownError(error, id, timestamp, context);
   }
 
+  /**
+   * Return AppErrors (e.g. from the error interceptor) unchanged and
+   * transform anything else with createAppError()
+   */
+  toAppError(error: unknown, context?: Partial<ErrorContext>): AppError {
+    return this.isAppError(error) ? error : this.createAppError(error, context);
+  }
+
+  /**
+   * Check whether a value is already a structured AppError
+   */
+  isAppError(error: unknown): error is AppError {
+    return (
+      error !== null &&
+      typeof error === 'object' &&
+      'id' in error &&
+      'code' in error &&
+      'category' in error &&
+      'severity' in error
+    );
+  }
+
+  /**
+   * Create an AppError for a response that does not match its contract
+   */
+  createContractError(
+    violations: ContractViolation[],
+    context?: Partial<ErrorContext>
+  ): AppError {
+    const summary = violations
+      .slice(0, 3)
+      .map((v) => `${v.path}: ${v.message}`)
+      .join('; ');
+    const more = violations.length > 3 ? ` (+${violations.length - 3} more)` : '';
+
+    return {
+      id: this.generateErrorId(),
+      code: 'CONTRACT_VIOLATION',
+      message: `Response does not match contract: ${summary}${more}`,
+      userMessage: this.getTranslatedMessage(
+        'errors.contract',
+        'The server returned unexpected data. Please try again later.'
+      ),
+      category: 'contract',
+      severity: 'error',
+      timestamp: new Date(),
+      context: {
+        ...context,
+        contractViolations: violations,
+      },
+    };
+  }
+
+  /**
+   * Create an AppError from an unsuccessful response envelope
+   *
+   * Handles both `{ success: false, message }` envelopes and the
+   * ApiError shape `{ success: false, error: { code, message, details } }`,
+   * which some endpoints return with HTTP 200.
+   */
+  createEnvelopeError(
+    envelope: ApiFailureEnvelope,
+    context?: Partial<ErrorContext>
+  ): AppError {
+    const serverMessage = envelope.error?.message || envelope.message;
+
+    return {
+      id: this.generateErrorId(),
+      code: envelope.error?.code || 'API_ERROR',
+      message: serverMessage || 'Request failed',
+      // Envelope messages are written for end users
+      userMessage:
+        serverMessage ||
+        this.getTranslatedMessage('errors.unexpected', 'An unexpected error occurred'),
+      category: 'server',
+      severity: 'error',
+      timestamp: new Date(),
+      context: {
+        responseBody: envelope,
+        ...context,
+      },
+      originalError: envelope.error?.details,
+    };
+  }
+
+  /**
+   * Create an AppError for a mutation saved to the offline queue
+   *
+   * The request was not lost: it is replayed once the connection returns.
+   */
+  createQueuedError(context?: Partial<ErrorContext>): AppError {
+    return {
+      id: this.generateErrorId(),
+      code: 'REQUEST_QUEUED',
+      message: 'Network unavailable, request queued for replay',
+      userMessage: this.getTranslatedMessage(
+        'offline.queued',
+        'You are offline. Your request was saved and will be sent when the connection returns.'
+      ),
+      category: 'network',
+      severity: 'info',
+      timestamp: new Date(),
+      context,
+    };
+  }
+
+  /**
+   * Reference code support can look up in the backend logs: the request's
+   * correlation ID, or the client-side error ID for errors without a request
+   */
+  getReferenceCode(error: AppError): string {
+    return error.context?.correlationId ?? error.id;
+  }
+
   /**
    * Get user-friendly message for HTTP status code
    */
@@ -85,6 +207,17 @@ export class ErrorService {
     return [];
   }
 
+  /**
+   * Field errors of a failed validation request (400/422), for mapping onto
+   * form controls; empty for any other error
+   */
+  getValidationErrors(error: AppError): ValidationError[] {
+    if (error.category !== 'validation' || !(error.originalError instanceof HttpErrorResponse)) {
+      return [];
+    }
+    return this.extractValidationErrors(error.originalError);
+  }
+
   /**
    * Determine error category from HTTP status
    */
@@ -116,8 +249,7 @@ export class ErrorService {
    * Check if error is retryable
    */
   isRetryable(statusCode: number): boolean {
-    const retryableCodes = [408, 429, 502, 503, 504];
-    return retryableCodes.includes(statusCode);
+    return DEFAULT_ERROR_CONFIG.retryableStatusCodes.includes(statusCode);
   }
 
   /**
@@ -169,6 +301,33 @@ export class ErrorService {
     };
   }
 
+  private fromTimeoutError(
+    error: TimeoutError<unknown, { timeout?: number }>,
+    id: string,
+    timestamp: Date,
+    context?: Partial<ErrorContext>
+  ): AppError {
+    const timeout = error.info?.meta?.timeout;
+
+    return {
+      id,
+      code: 'HTTP_TIMEOUT',
+      message: timeout ? `Request timed out after ${timeout}ms` : error.message,
+      userMessage: this.getTranslatedMessage(
+        'errors.timeout',
+        'The server is taking too long to respond. Please try again.'
+      ),
+      category: 'network',
+      severity: 'error',
+      timestamp,
+      context: {
+        timeout,
+        ...context,
+      },
+      originalError: error,
+    };
+  }
+
   private fromNativeError(
     error: Error,
     id: string,
@@ -210,6 +369,11 @@ export class ErrorService {
     };
   }
 
+  private getTranslatedMessage(key: string, fallback: string): string {
+    const translated = this.translate.instant(key);
+    return translated !== key ? translated : fallback;
+  }
+
   private getMessageKey(statusCode: number): string {
     const keyMap: Record<number, string> = {
       0: 'errors.network',
@@ -9,6 +9,7 @@ import { CommonModule } from '@angular/common';
 import { TranslateModule } from '@ngx-translate/core';
 import { LayoutService } from '../layout.service';
 import { KeycloakService } from '../../auth';
+import { OfflineQueueService } from '../../api';
 import { LanguageService } from '../../services/language.service';
 import { environment } from '../../../../environments/environment';
 
@@ -24,12 +25,18 @@ export class HeaderComponent {
   public layoutService = inject(LayoutService);
   private keycloakService = inject(KeycloakService);
   public languageService = inject(LanguageService);
+  private offlineQueueService = inject(OfflineQueueService);
 
   // Layout state
   isRTL = this.layoutService.isRTL;
   isDark = this.layoutService.isDark;
   sidebarCollapsed = this.layoutService.sidebarCollapsed;
 
+  // Offline queue state
+  isOnline = this.offlineQueueService.online;
+  pendingRequests = this.offlineQueueService.pendingCount;
+  syncing = this.offlineQueueService.syncing;
+
   // Language state
   currentLanguage$ = this.languageService.currentLanguage$;
 
@@ -73,6 +80,13 @@ export class HeaderComponent {
     this.languageService.toggleLanguage();
   }
 
+  /**
+   * Send queued offline requests now
+   */
+  syncOfflineQueue(): void {
+    void this.offlineQueueService.replay();
+  }
+
   /**
    * Login
    */
@@ -5,8 +5,9 @@
  * Includes Header, Sidebar, Footer, MainLayout, and PublicLayout with RTL support.
  */
 
-// Service
+// Services
 export * from './layout.service';
+export * from './navigation.service';
 
 // Components
 export * from './header/header.component';
@@ -0,0 +1,111 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Routes, provideRouter } from '@angular/router';
+import { KeycloakService } from '../auth';
+import { KeycloakServiceStub } from '../auth/testing/keycloak-service.stub';
+import { NavigationService } from './navigation.service';
+
+@Component({ template: '' })
+class PageComponent {}
+
+const routes: Routes = [
+  { path: '', redirectTo: 'dashboard', pathMatch: 'full' },
+  {
+    path: '',
+    children: [
+      {
+        path: 'dashboard',
+        component: PageComponent,
+        data: { nav: { label: 'nav.dashboard', icon: 'home', order: 10 } },
+      },
+      {
+        path: 'users',
+        component: PageComponent,
+        data: { permissions: ['users.view'], nav: { label: 'nav.users', order: 20 } },
+      },
+      {
+        path: 'admin',
+        data: { roles: ['admin', 'manager'], nav: { label: 'nav.admin', order: 5 } },
+        children: [
+          {
+            path: 'settings',
+            component: PageComponent,
+            data: { roles: ['admin'], nav: { label: 'nav.settings', order: 2 } },
+          },
+          {
+            path: 'audit',
+            component: PageComponent,
+            data: { permissions: ['users.edit'], nav: { label: 'nav.audit', order: 1 } },
+          },
+        ],
+      },
+      { path: 'reports', component: PageComponent },
+    ],
+  },
+  { path: '**', component: PageComponent },
+];
+
+describe('NavigationService', () => {
+  let keycloak: KeycloakServiceStub;
+  let service: NavigationService;
+
+  beforeEach(() => {
+    keycloak = new KeycloakServiceStub();
+
+    TestBed.configureTestingModule({
+      providers: [provideRouter(routes), { provide: KeycloakService, useValue: keycloak }],
+    });
+
+    service = TestBed.inject(NavigationService);
+  });
+
+  function labels(items = service.items()): unknown[] {
+    return items.map((item) =>
+      item.children.length > 0 ? [item.label, labels(item.children)] : item.label
+    );
+  }
+
+  it('should only list entries without access rules when signed out', () => {
+    expect(labels()).toEqual(['nav.dashboard']);
+  });
+
+  it('should hide entries the user may not open', () => {
+    keycloak.signIn(['user']);
+
+    expect(labels()).toEqual(['nav.dashboard', 'nav.users']);
+  });
+
+  it('should order entries and nest the entries of a group', () => {
+    keycloak.signIn(['admin']);
+
+    expect(labels()).toEqual([
+      ['nav.admin', ['nav.audit', 'nav.settings']],
+      'nav.dashboard',
+      'nav.users',
+    ]);
+  });
+
+  it('should filter the entries of a group by their own rules', () => {
+    keycloak.signIn(['manager']);
+
+    expect(labels()).toEqual([['nav.admin', ['nav.audit']], 'nav.dashboard', 'nav.users']);
+  });
+
+  it('should build absolute URLs, without one for a group', () => {
+    keycloak.signIn(['admin']);
+    const [admin, dashboard] = service.items();
+
+    expect(admin.route).toBeNull();
+    expect(admin.children.map((item) => item.route)).toEqual(['/admin/audit', '/admin/settings']);
+    expect(dashboard.route).toBe('/dashboard');
+    expect(dashboard.icon).toBe('home');
+  });
+
+  it('should rebuild the menu on login and logout', () => {
+    keycloak.signIn(['admin']);
+    expect(service.items().length).toBe(3);
+
+    keycloak.signOut();
+    expect(labels()).toEqual(['nav.dashboard']);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Navigation Service
+ *
+ * Builds the sidebar menu from route metadata, so a route declared with
+ * `data.nav` gets a menu entry without editing the sidebar. Entries are
+ * hidden from users the route's guards would turn away.
+ *
+ * Only the eagerly declared route tree is read. A `loadChildren` area is
+ * one entry, declared on its parent route: the routes it loads are not in
+ * `router.config`, so their `data.nav` is ignored. Groups need their child
+ * routes declared in the parent config (pages can still use loadComponent).
+ */
+
+import { Injectable, computed, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Route, Router } from '@angular/router';
+import {
+  KeycloakService,
+  PermissionService,
+  hasRequiredPermissions,
+  hasRequiredRoles,
+} from '../auth';
+
+/**
+ * Menu entry metadata, declared as `data.nav` on a route
+ *
+ * Access is taken from the route's guard data (`roles`, `clientRoles`,
+ * `permissions`, `requireAll`) and from its parent routes.
+ *
+ * @example
+ * {
+ *   path: 'users',
+ *   loadChildren: () => import('./features/users').then((m) => m.USERS_ROUTES),
+ *   canActivate: [permissionGuard],
+ *   data: {
+ *     permissions: ['users.view'],
+ *     nav: { label: 'nav.users', icon: 'users', order: 20 },
+ *   },
+ * }
+ */
+export interface RouteNavData {
+  /** Translation key */
+  label: string;
+  icon?: string;
+  /** Position among its siblings, lowest first; unordered entries go last */
+  order?: number;
+}
+
+export interface NavItem {
+  /** Translation key */
+  label: string;
+  /** Absolute URL; null for a group without a page of its own */
+  route: string | null;
+  icon: string;
+  /**
+   * Entries of routes nested under this one that declare `data.nav`; always
+   * empty for a `loadChildren` route
+   */
+  children: NavItem[];
+}
+
+const DEFAULT_ICON = 'document';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class NavigationService {
+  private router = inject(Router);
+  private keycloakService = inject(KeycloakService);
+  private permissionService = inject(PermissionService);
+
+  // Roles are read from the token; these signals rebuild the menu on login,
+  // logout and when the profile loads
+  private isAuthenticated = toSignal(this.keycloakService.isAuthenticated$, {
+    requireSync: true,
+  });
+  private user = toSignal(this.keycloakService.user$, { requireSync: true });
+
+  /**
+   * Menu entries the current user may open
+   */
+  readonly items = computed(() => {
+    this.isAuthenticated();
+    this.user();
+    return this.buildItems(this.router.config, '');
+  });
+
+  private buildItems(routes: readonly Route[], parentUrl: string): NavItem[] {
+    // Array sort is stable: equal orders keep their declaration order
+    return this.collectEntries(routes, parentUrl)
+      .sort((a, b) => a.order - b.order)
+      .map(({ item }) => item);
+  }
+
+  private collectEntries(
+    routes: readonly Route[],
+    parentUrl: string
+  ): { item: NavItem; order: number }[] {
+    return routes.flatMap((route) => {
+      if (route.redirectTo !== undefined || route.path === '**' || !this.canAccess(route)) {
+        return [];
+      }
+
+      const url = route.path ? `${parentUrl}/${route.path}` : parentUrl;
+      const nav = route.data?.['nav'] as RouteNavData | undefined;
+
+      // Routes without menu metadata (layouts, wrappers) pass their entries up
+      if (!nav) {
+        return this.collectEntries(route.children ?? [], url);
+      }
+
+      const hasPage = !!(route.component || route.loadComponent || route.loadChildren);
+      // Lazy loaded routes are not in the config: a loadChildren route has no children here
+      const children = this.buildItems(route.children ?? [], url);
+
+      // A group whose entries are all hidden has nothing to show
+      if (!hasPage && children.length === 0) {
+        return [];
+      }
+
+      return [
+        {
+          item: {
+            label: nav.label,
+            route: hasPage ? url || '/' : null,
+            icon: nav.icon ?? DEFAULT_ICON,
+            children,
+          },
+          order: nav.order ?? Number.MAX_SAFE_INTEGER,
+        },
+      ];
+    });
+  }
+
+  private canAccess(route: Route): boolean {
+    const data = route.data ?? {};
+    return (
+      hasRequiredRoles(this.keycloakService, data) &&
+      hasRequiredPermissions(this.permissionService, data)
+    );
+  }
+}
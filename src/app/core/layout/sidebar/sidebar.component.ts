@@ -1,23 +1,18 @@
 /**
  * Sidebar Component
  *
- * Side navigation with responsive design and RTL support.
+ * Side navigation with responsive design and RTL support. Menu entries come
+ * from route metadata through NavigationService.
  */
 
-import { Component, inject } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink, RouterLinkActive } from '@angular/router';
 import { LayoutService } from '../layout.service';
+import { NavigationService } from '../navigation.service';
 import { KeycloakService } from '../../auth';
 import { TranslateModule } from '@ngx-translate/core';
 
-export interface NavItem {
-  label: string;
-  route: string;
-  icon: string;
-  roles?: string[];
-}
-
 @Component({
   selector: 'app-sidebar',
   standalone: true,
@@ -29,6 +24,7 @@ export class SidebarComponent {
   // Inject services
   public layoutService = inject(LayoutService);
   private keycloakService = inject(KeycloakService);
+  private navigationService = inject(NavigationService);
 
   // Layout state
   sidebarOpen = this.layoutService.sidebarOpen;
@@ -39,24 +35,9 @@ export class SidebarComponent {
   isAuthenticated$ = this.keycloakService.isAuthenticated$;
   user$ = this.keycloakService.user$;
 
-  // Navigation items
-  navItems: NavItem[] = [
-    {
-      label: 'الصفحة الرئيسية',
-      route: '/dashboard',
-      icon: 'home',
-    },
-    {
-      label: 'خدماتي',
-      route: '/users',
-      icon: 'users',
-    },
-    {
-      label: 'روابط تُهمك',
-      route: '/links',
-      icon: 'link',
-    },
-  ];
+  // Navigation items, filtered by the user's roles and permissions
+  navItems = this.navigationService.items;
+  private collapsedGroups = signal<ReadonlySet<string>>(new Set());
 
   /**
    * Close sidebar (mobile)
@@ -65,6 +46,21 @@ export class SidebarComponent {
     this.layoutService.setSidebarOpen(false);
   }
 
+  isGroupExpanded(label: string): boolean {
+    return !this.collapsedGroups().has(label);
+  }
+
+  /**
+   * Expand or collapse a menu group
+   */
+  toggleGroup(label: string): void {
+    const collapsed = new Set(this.collapsedGroups());
+    if (!collapsed.delete(label)) {
+      collapsed.add(label);
+    }
+    this.collapsedGroups.set(collapsed);
+  }
+
   /**
    * Toggle sidebar collapse (desktop)
    */
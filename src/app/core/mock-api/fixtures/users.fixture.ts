@@ -0,0 +1,22 @@
+/**
+ * User Fixtures
+ *
+ * Seed data for the mock users endpoints.
+ */
+
+import { User } from '../../../shared/models';
+
+export const USER_FIXTURES: readonly User[] = [
+  { id: '1', name: 'John Doe', email: 'john@example.com', role: 'admin', createdAt: new Date('2024-01-15T08:30:00Z') },
+  { id: '2', name: 'Jane Smith', email: 'jane@example.com', role: 'manager', createdAt: new Date('2024-02-03T10:00:00Z') },
+  { id: '3', name: 'أحمد العتيبي', email: 'ahmed.alotaibi@example.com', role: 'user', createdAt: new Date('2024-02-20T07:45:00Z') },
+  { id: '4', name: 'سارة القحطاني', email: 'sara.alqahtani@example.com', role: 'manager', createdAt: new Date('2024-03-11T12:15:00Z') },
+  { id: '5', name: 'Omar Haddad', email: 'omar.haddad@example.com', role: 'user', createdAt: new Date('2024-04-02T09:20:00Z') },
+  { id: '6', name: 'نورة الشهري', email: 'noura.alshehri@example.com', role: 'user', createdAt: new Date('2024-04-18T11:05:00Z') },
+  { id: '7', name: 'Emily Carter', email: 'emily.carter@example.com', role: 'user', createdAt: new Date('2024-05-06T14:40:00Z') },
+  { id: '8', name: 'خالد الدوسري', email: 'khalid.aldosari@example.com', role: 'admin', createdAt: new Date('2024-05-29T06:55:00Z') },
+  { id: '9', name: 'Lina Mansour', email: 'lina.mansour@example.com', role: 'user', createdAt: new Date('2024-06-14T13:30:00Z') },
+  { id: '10', name: 'فهد الغامدي', email: 'fahad.alghamdi@example.com', role: 'user', createdAt: new Date('2024-07-01T08:10:00Z') },
+  { id: '11', name: 'David Kim', email: 'david.kim@example.com', role: 'manager', createdAt: new Date('2024-07-22T15:25:00Z') },
+  { id: '12', name: 'ريم الحربي', email: 'reem.alharbi@example.com', role: 'user', createdAt: new Date('2024-08-09T10:50:00Z') },
+];
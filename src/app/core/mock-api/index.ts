@@ -0,0 +1,24 @@
+/**
+ * Mock API Module
+ *
+ * In-memory backend serving API_ENDPOINTS from fixtures, for running the
+ * app without a real API and for unit tests.
+ */
+
+// Configuration
+export * from './mock-api.config';
+
+// Interceptor
+export * from './mock-api.interceptor';
+
+// Services
+export * from './mock-backend.service';
+export * from './mock-database';
+
+// Handlers
+export * from './mock-handlers';
+export * from './mock-errors';
+export * from './fixtures';
+
+// Models
+export * from './models/mock-api.model';
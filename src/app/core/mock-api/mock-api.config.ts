@@ -0,0 +1,48 @@
+/**
+ * Mock API Configuration
+ */
+
+import { InjectionToken, Provider } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { MockApiConfig } from './models/mock-api.model';
+
+/**
+ * Default configuration; enabled through `environment.mockApi`
+ */
+export const DEFAULT_MOCK_API_CONFIG: MockApiConfig = {
+  enabled: environment.mockApi,
+  latency: { min: 150, max: 600 },
+  errorRate: 0,
+  errorStatus: 503,
+};
+
+/**
+ * Active mock backend configuration
+ */
+export const MOCK_API_CONFIG = new InjectionToken<MockApiConfig>('MOCK_API_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_MOCK_API_CONFIG,
+});
+
+/**
+ * Enable the mock backend regardless of the environment
+ *
+ * Register mockApiInterceptor with provideHttpClient() as well.
+ *
+ * @example
+ * // Unit tests: no latency, no random failures
+ * TestBed.configureTestingModule({
+ *   providers: [
+ *     provideHttpClient(withInterceptors([mockApiInterceptor])),
+ *     provideMockApi({ latency: { min: 0, max: 0 } }),
+ *   ],
+ * });
+ */
+export function provideMockApi(config: Partial<MockApiConfig> = {}): Provider[] {
+  return [
+    {
+      provide: MOCK_API_CONFIG,
+      useValue: { ...DEFAULT_MOCK_API_CONFIG, enabled: true, ...config },
+    },
+  ];
+}
@@ -0,0 +1,22 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { MOCK_API_CONFIG } from './mock-api.config';
+import { MockBackendService } from './mock-backend.service';
+
+/**
+ * Mock API Interceptor
+ *
+ * Functional interceptor that answers API requests from MockBackendService
+ * when the mock backend is enabled (`environment.mockApi` or provideMockApi()).
+ * Requests outside the API base URL (translations, assets) pass through.
+ *
+ * Register it last so the auth, error and retry interceptors still apply
+ * to mock responses.
+ */
+export const mockApiInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!inject(MOCK_API_CONFIG).enabled) {
+    return next(req);
+  }
+
+  return inject(MockBackendService).handle(req) ?? next(req);
+};
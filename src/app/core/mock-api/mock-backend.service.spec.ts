@@ -0,0 +1,151 @@
+import { TestBed } from '@angular/core/testing';
+import {
+  HttpClient,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { Observable, firstValueFrom } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { PaginatedResponse } from '../api';
+import { HttpErrorCode, ValidationErrorResponse } from '../error';
+import { User } from '../../shared/models';
+import { provideMockApi } from './mock-api.config';
+import { mockApiInterceptor } from './mock-api.interceptor';
+import { MockBackendService } from './mock-backend.service';
+import { MockDatabase } from './mock-database';
+
+describe('MockBackendService', () => {
+  const usersUrl = `${environment.apiUrl}/users`;
+  let http: HttpClient;
+  let db: MockDatabase;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockApiInterceptor])),
+        provideMockApi({ latency: { min: 0, max: 0 }, errorRate: 0 }),
+      ],
+    });
+
+    TestBed.inject(MockBackendService).reset();
+    http = TestBed.inject(HttpClient);
+    db = TestBed.inject(MockDatabase);
+  });
+
+  async function failure(request$: Observable<unknown>): Promise<HttpErrorResponse> {
+    try {
+      await firstValueFrom(request$);
+    } catch (error) {
+      return error as HttpErrorResponse;
+    }
+    throw new Error('Expected the request to fail');
+  }
+
+  describe('paging', () => {
+    it('should return the requested page with its pagination', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<User>>(usersUrl, { params: { page: 2, pageSize: 5 } })
+      );
+
+      expect(response.data.map((user) => user.id)).toEqual(['6', '7', '8', '9', '10']);
+      expect(response.pagination).toEqual({ page: 2, pageSize: 5, total: 12, totalPages: 3 });
+    });
+
+    it('should return a partial last page', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<User>>(usersUrl, { params: { page: 3, pageSize: 5 } })
+      );
+
+      expect(response.data.length).toBe(2);
+    });
+
+    it('should page the filtered users', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<User>>(usersUrl, {
+          params: { role: 'manager', page: 1, pageSize: 2 },
+        })
+      );
+
+      expect(response.data.every((user) => user.role === 'manager')).toBeTrue();
+      expect(response.pagination.total).toBe(3);
+      expect(response.pagination.totalPages).toBe(2);
+    });
+
+    it('should return every matching user as one page without paging params', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<User>>(usersUrl, { params: { search: 'doe' } })
+      );
+
+      expect(response.data.map((user) => user.id)).toEqual(['1']);
+      expect(response.pagination.totalPages).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject an invalid user with 422 and field errors', async () => {
+      const error = await failure(http.post(usersUrl, { name: ' ', email: 'not-an-email' }));
+      const body = error.error as ValidationErrorResponse;
+
+      expect(error.status).toBe(HttpErrorCode.UnprocessableEntity);
+      expect(body.errors.map((e) => [e.field, e.code])).toEqual([
+        ['name', 'required'],
+        ['email', 'email'],
+      ]);
+      expect(db.users.all().length).toBe(12);
+    });
+
+    it('should only validate the fields sent in an update', async () => {
+      const user = await firstValueFrom(http.put<User>(`${usersUrl}/2`, { name: 'Jane Doe' }));
+
+      expect(user.name).toBe('Jane Doe');
+      expect(user.email).toBe('jane@example.com');
+    });
+  });
+
+  describe('duplicate email', () => {
+    it('should reject a new user with a used email with 409', async () => {
+      const error = await failure(http.post(usersUrl, { name: 'Copy', email: 'john@example.com' }));
+
+      expect(error.status).toBe(HttpErrorCode.Conflict);
+      expect(db.users.all().length).toBe(12);
+    });
+
+    it("should reject an update to another user's email with 409", async () => {
+      const error = await failure(http.put(`${usersUrl}/2`, { email: 'john@example.com' }));
+
+      expect(error.status).toBe(HttpErrorCode.Conflict);
+      expect(db.users.find('2')?.email).toBe('jane@example.com');
+    });
+
+    it('should accept an update keeping the same email', async () => {
+      const user = await firstValueFrom(
+        http.put<User>(`${usersUrl}/1`, { name: 'John', email: 'john@example.com' })
+      );
+
+      expect(user.name).toBe('John');
+    });
+  });
+
+  it('should create a valid user with the next id', async () => {
+    const user = await firstValueFrom(
+      http.post<User>(usersUrl, { name: 'Test', email: 'test@example.com' })
+    );
+
+    expect(user.id).toBe('13');
+    expect(db.users.find('13')?.email).toBe('test@example.com');
+  });
+
+  it('should update the profile of the signed-in user', async () => {
+    const user = await firstValueFrom(http.put<User>(`${usersUrl}/profile`, { name: 'John D.' }));
+
+    expect(user.id).toBe('1');
+    expect(db.users.find('1')?.name).toBe('John D.');
+  });
+
+  it('should answer unknown users with 404', async () => {
+    const error = await failure(http.get(`${usersUrl}/999`));
+
+    expect(error.status).toBe(HttpErrorCode.NotFound);
+  });
+});
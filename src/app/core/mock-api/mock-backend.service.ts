@@ -0,0 +1,174 @@
+/**
+ * Mock Backend Service
+ *
+ * Routes API requests to the mock handlers, with simulated latency and
+ * failures. Responses are JSON round-tripped so that they look exactly
+ * like the real API's (e.g. dates become ISO strings).
+ */
+
+import { Injectable, inject } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpParams,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Observable, map, of, timer } from 'rxjs';
+import {
+  API_ENDPOINTS,
+  ApiTargetName,
+  DEFAULT_API_TARGET,
+  EndpointDefinitionBase,
+  ResolvedApiTarget,
+  isEndpointDefinition,
+  resolveApiTarget,
+} from '../api';
+import { HttpErrorCode } from '../error';
+import { MOCK_API_CONFIG } from './mock-api.config';
+import { MockDatabase } from './mock-database';
+import { MockHttpError, mockError } from './mock-errors';
+import { MOCK_HANDLERS } from './mock-handlers';
+import { MockHandler } from './models/mock-api.model';
+
+/**
+ * Request header forcing a mock error status, e.g. `X-Mock-Status: 500`
+ */
+export const MOCK_STATUS_HEADER = 'X-Mock-Status';
+
+interface MockRoute {
+  target: ApiTargetName;
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler<EndpointDefinitionBase>;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class MockBackendService {
+  private readonly config = inject(MOCK_API_CONFIG);
+  private readonly routes = this.buildRoutes();
+
+  /** Data behind the handlers; seed or inspect it in tests */
+  readonly db = inject(MockDatabase);
+
+  /**
+   * Handle an API request
+   *
+   * @returns The mock response, or null for URLs outside the API targets (assets, ...)
+   */
+  handle(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> | null {
+    const target = resolveApiTarget(req.url);
+    if (!target) {
+      return null;
+    }
+
+    const { min, max } = this.config.latency;
+    const latency = min + Math.random() * Math.max(0, max - min);
+    const delay$ = latency > 0 ? timer(latency) : of(0);
+
+    return delay$.pipe(map(() => this.respond(req, target)));
+  }
+
+  /**
+   * Restore the fixtures
+   */
+  reset(): void {
+    this.db.reset();
+  }
+
+  private respond(req: HttpRequest<unknown>, target: ResolvedApiTarget): HttpResponse<unknown> {
+    const [, queryString = ''] = req.urlWithParams.split('?');
+
+    try {
+      const forcedStatus = Number(req.headers.get(MOCK_STATUS_HEADER));
+      if (forcedStatus >= 400) {
+        throw mockError(forcedStatus, `Simulated error ${forcedStatus}`);
+      }
+
+      if (Math.random() < this.config.errorRate) {
+        throw mockError(this.config.errorStatus, 'Simulated failure');
+      }
+
+      const { route, params } = this.match(target.name, req.method, target.path);
+      const body = route.handler(
+        { params, query: new HttpParams({ fromString: queryString }), body: req.body as never, request: req },
+        this.db
+      );
+
+      return new HttpResponse({
+        body: body === undefined ? null : JSON.parse(JSON.stringify(body)),
+        status: body === undefined ? 204 : req.method === 'POST' ? 201 : 200,
+        statusText: 'OK',
+        url: req.urlWithParams,
+      });
+    } catch (error) {
+      const failure =
+        error instanceof MockHttpError
+          ? error
+          : mockError(HttpErrorCode.InternalServerError, String(error));
+
+      throw new HttpErrorResponse({
+        error: failure.body,
+        status: failure.status,
+        statusText: 'Mock Error',
+        url: req.urlWithParams,
+      });
+    }
+  }
+
+  private match(
+    target: ApiTargetName,
+    method: string,
+    path: string
+  ): { route: MockRoute; params: Record<string, string> } {
+    for (const route of this.routes) {
+      const match = route.target === target && route.method === method ? route.pattern.exec(path) : null;
+
+      if (match) {
+        const params = Object.fromEntries(
+          route.paramNames.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+        );
+        return { route, params };
+      }
+    }
+
+    throw mockError(HttpErrorCode.NotFound, `No mock handler for ${method} ${path}`);
+  }
+
+  /**
+   * Pair every API_ENDPOINTS definition with its handler
+   *
+   * Routes without parameters come first so `/users/profile` wins over `/users/:id`.
+   */
+  private buildRoutes(): MockRoute[] {
+    const routes: MockRoute[] = [];
+    const handlers = MOCK_HANDLERS as unknown as Record<string, Record<string, MockHandler<EndpointDefinitionBase>>>;
+
+    Object.entries(API_ENDPOINTS).forEach(([group, endpoints]) => {
+      Object.entries(endpoints).forEach(([name, definition]) => {
+        if (!isEndpointDefinition(definition)) return;
+
+        const paramNames: string[] = [];
+        const source = definition.path
+          .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/:([A-Za-z0-9_]+)/g, (_, param: string) => {
+            paramNames.push(param);
+            return '([^/]+)';
+          });
+
+        routes.push({
+          target: definition.target ?? DEFAULT_API_TARGET,
+          method: definition.method,
+          pattern: new RegExp(`^${source}/?$`),
+          paramNames,
+          handler: handlers[group][name],
+        });
+      });
+    });
+
+    return routes.sort((a, b) => a.paramNames.length - b.paramNames.length);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Mock Database
+ *
+ * In-memory collections backing the mock API. Changes persist for the
+ * session (until reload or reset()).
+ */
+
+import { Injectable } from '@angular/core';
+import { User } from '../../shared/models';
+import { USER_FIXTURES } from './fixtures';
+
+/**
+ * In-memory collection of records with string ids
+ */
+export class MockCollection<T extends { id: string }> {
+  private items: T[] = [];
+  private nextId = 1;
+
+  constructor(private readonly seed: readonly T[]) {
+    this.reset();
+  }
+
+  all(): T[] {
+    return [...this.items];
+  }
+
+  find(id: string): T | undefined {
+    return this.items.find((item) => item.id === id);
+  }
+
+  findBy(predicate: (item: T) => boolean): T | undefined {
+    return this.items.find(predicate);
+  }
+
+  insert(data: Omit<T, 'id'>): T {
+    const item = { id: String(this.nextId++), ...data } as T;
+    this.items.push(item);
+    return item;
+  }
+
+  update(id: string, changes: Partial<T>): T | undefined {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index === -1) return undefined;
+
+    this.items[index] = { ...this.items[index], ...changes, id };
+    return this.items[index];
+  }
+
+  remove(id: string): boolean {
+    const length = this.items.length;
+    this.items = this.items.filter((item) => item.id !== id);
+    return this.items.length < length;
+  }
+
+  /**
+   * Restore the seed data
+   */
+  reset(items: readonly T[] = this.seed): void {
+    this.items = structuredClone([...items]);
+    this.nextId = Math.max(0, ...this.items.map((item) => Number(item.id) || 0)) + 1;
+  }
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class MockDatabase {
+  readonly users = new MockCollection<User>(USER_FIXTURES);
+
+  /**
+   * Restore every collection to its fixtures
+   */
+  reset(): void {
+    this.users.reset();
+  }
+}
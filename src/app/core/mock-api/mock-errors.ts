@@ -0,0 +1,46 @@
+/**
+ * Mock Errors
+ *
+ * Errors thrown by mock handlers to fail a request. Bodies follow the
+ * ApiError and ValidationErrorResponse shapes used by the real API.
+ */
+
+import { ApiError } from '../api';
+import { HttpErrorCode, ValidationError, ValidationErrorResponse } from '../error';
+
+/**
+ * Error response produced by a mock handler
+ */
+export class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {
+    super(`Mock API error ${status}`);
+  }
+}
+
+/**
+ * Fail the request with an ApiError body
+ *
+ * @example
+ * throw mockError(HttpErrorCode.NotFound, 'User not found');
+ */
+export function mockError(status: number, message: string, details?: unknown): MockHttpError {
+  const body: ApiError = {
+    success: false,
+    error: { code: `HTTP_${status}`, message, details },
+  };
+  return new MockHttpError(status, body);
+}
+
+/**
+ * Fail the request with 422 and field errors
+ */
+export function mockValidationError(
+  errors: ValidationError[],
+  message = 'Validation failed'
+): MockHttpError {
+  const body: ValidationErrorResponse = { message, errors };
+  return new MockHttpError(HttpErrorCode.UnprocessableEntity, body);
+}
@@ -0,0 +1,141 @@
+/**
+ * Mock Handlers
+ *
+ * Mock implementation of every endpoint in API_ENDPOINTS. The MockHandlers
+ * type mirrors API_ENDPOINTS, so adding an endpoint without a handler here
+ * is a compile error.
+ */
+
+import { HttpErrorCode, ValidationError } from '../error';
+import { CreateUserDto, UpdateUserDto, USER_ROLES, User, UserSortField } from '../../shared/models';
+import { MockCollection } from './mock-database';
+import { mockError, mockValidationError } from './mock-errors';
+import { MockHandlers } from './models/mock-api.model';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * The signed-in user in mock mode
+ */
+const CURRENT_USER_ID = '1';
+
+function findOrFail<T extends { id: string }>(collection: MockCollection<T>, id: string, name: string): T {
+  const item = collection.find(id);
+  if (!item) {
+    throw mockError(HttpErrorCode.NotFound, `${name} ${id} not found`);
+  }
+  return item;
+}
+
+/**
+ * Validate a user payload like the API does (422 with field errors)
+ */
+function validateUser(dto: CreateUserDto | UpdateUserDto, partial: boolean): void {
+  const errors: ValidationError[] = [];
+
+  if ((!partial || dto.name !== undefined) && !dto.name?.trim()) {
+    errors.push({ field: 'name', message: 'Name is required', code: 'required' });
+  }
+
+  if (!partial || dto.email !== undefined) {
+    if (!dto.email?.trim()) {
+      errors.push({ field: 'email', message: 'Email is required', code: 'required' });
+    } else if (!EMAIL_PATTERN.test(dto.email)) {
+      errors.push({ field: 'email', message: 'Email is invalid', code: 'email' });
+    }
+  }
+
+  if (dto.role !== undefined && !(USER_ROLES as readonly string[]).includes(dto.role)) {
+    errors.push({ field: 'role', message: 'Role is invalid', code: 'invalidRole' });
+  }
+
+  if (errors.length > 0) {
+    throw mockValidationError(errors);
+  }
+}
+
+function assertUniqueEmail(users: MockCollection<User>, email: string | undefined, exceptId?: string): void {
+  const taken = email && users.findBy((user) => user.email === email && user.id !== exceptId);
+  if (taken) {
+    throw mockError(HttpErrorCode.Conflict, `Email ${email} is already in use`);
+  }
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return String(a).localeCompare(String(b));
+}
+
+export const MOCK_HANDLERS: MockHandlers = {
+  auth: {
+    login: () => ({ success: true }),
+    logout: () => undefined,
+    refresh: () => ({ success: true }),
+    me: (_, db) => findOrFail(db.users, CURRENT_USER_ID, 'User'),
+  },
+
+  users: {
+    list: ({ query }, db) => {
+      const search = query.get('search')?.trim().toLowerCase();
+      const role = query.get('role');
+      const sort = query.get('sort') as UserSortField | null;
+      const direction = query.get('order') === 'desc' ? -1 : 1;
+
+      const users = db.users
+        .all()
+        .filter(
+          (user) =>
+            !search ||
+            user.name.toLowerCase().includes(search) ||
+            user.email.toLowerCase().includes(search)
+        )
+        .filter((user) => !role || user.role === role);
+
+      if (sort) {
+        users.sort((a, b) => compareValues(a[sort], b[sort]) * direction);
+      }
+
+      // Without paging params the whole result is returned as a single page
+      const total = users.length;
+      const pageSize = Number(query.get('pageSize')) || Math.max(total, 1);
+      const page = Number(query.get('page')) || 1;
+
+      return {
+        data: users.slice((page - 1) * pageSize, page * pageSize),
+        pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+      };
+    },
+
+    byId: ({ params }, db) => findOrFail(db.users, params['id'], 'User'),
+
+    create: ({ body }, db) => {
+      validateUser(body, false);
+      assertUniqueEmail(db.users, body.email);
+      return db.users.insert({ ...body, createdAt: new Date() });
+    },
+
+    update: ({ params, body }, db) => {
+      findOrFail(db.users, params['id'], 'User');
+      validateUser(body, true);
+      assertUniqueEmail(db.users, body.email, params['id']);
+      return db.users.update(params['id'], body)!;
+    },
+
+    delete: ({ params }, db) => {
+      findOrFail(db.users, params['id'], 'User');
+      db.users.remove(params['id']);
+    },
+
+    profile: (_, db) => findOrFail(db.users, CURRENT_USER_ID, 'User'),
+
+    updateProfile: ({ body }, db) => {
+      findOrFail(db.users, CURRENT_USER_ID, 'User');
+      validateUser(body, true);
+      assertUniqueEmail(db.users, body.email, CURRENT_USER_ID);
+      return db.users.update(CURRENT_USER_ID, body)!;
+    },
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Mock API Models
+ *
+ * Type definitions for the mock backend.
+ */
+
+import { HttpParams, HttpRequest } from '@angular/common/http';
+import { ApiEndpoint, EndpointBody, EndpointDefinitionBase, EndpointResponse } from '../../api';
+import type { MockDatabase } from '../mock-database';
+
+/**
+ * Mock backend configuration
+ */
+export interface MockApiConfig {
+  /** Serve API requests from the mock backend */
+  enabled: boolean;
+  /** Simulated network latency range (ms) */
+  latency: { min: number; max: number };
+  /** Probability (0-1) that a request fails with errorStatus */
+  errorRate: number;
+  /** Status of randomly failed requests (default: 503, which is retried) */
+  errorStatus: number;
+}
+
+/**
+ * Request as seen by a mock handler
+ */
+export interface MockRequest<E extends EndpointDefinitionBase> {
+  /** Path parameters, e.g. `{ id: '42' }` for `/users/:id` */
+  params: Record<string, string>;
+  query: HttpParams;
+  body: EndpointBody<E>;
+  request: HttpRequest<unknown>;
+}
+
+/**
+ * Handler producing the response body of one endpoint
+ *
+ * Return the body (status 200, 201 for POST, 204 when undefined) or throw
+ * mockError() / mockValidationError() to fail the request.
+ */
+export type MockHandler<E extends EndpointDefinitionBase> = (
+  request: MockRequest<E>,
+  db: MockDatabase
+) => EndpointResponse<E> | void;
+
+/**
+ * One handler per API_ENDPOINTS entry, checked at compile time
+ */
+export type MockHandlers = {
+  [G in keyof ApiEndpoint]: {
+    [K in keyof ApiEndpoint[G]]: ApiEndpoint[G][K] extends EndpointDefinitionBase
+      ? MockHandler<ApiEndpoint[G][K]>
+      : never;
+  };
+};
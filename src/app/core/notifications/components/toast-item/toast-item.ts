@@ -1,6 +1,10 @@
-import { Component, input, output, computed } from '@angular/core';
+import { Component, DestroyRef, input, output, computed, signal, inject } from '@angular/core';
+import { TranslateModule } from '@ngx-translate/core';
 import { Notification, NotificationType } from '../../models/notification.model';
 
+/** How long the copy button shows "Copied" (ms) */
+const COPIED_RESET_DELAY = 2000;
+
 /**
  * ToastItemComponent
  *
@@ -10,6 +14,7 @@ import { Notification, NotificationType } from '../../models/notification.model'
 @Component({
   selector: 'app-toast-item',
   standalone: true,
+  imports: [TranslateModule],
   template: `
     <div
       [class]="toastClasses()"
@@ -46,6 +51,22 @@ import { Notification, NotificationType } from '../../models/notification.model'
           {{ notification().message }}
         </p>
 
+        <!-- Reference Code -->
+        @if (notification().reference) {
+          <div class="mt-2 flex flex-wrap items-center gap-x-2 text-xs opacity-90">
+            <span>{{ 'notifications.reference' | translate }}:</span>
+            <code class="font-mono select-all" dir="ltr">{{ notification().reference }}</code>
+            <button
+              type="button"
+              class="font-medium underline hover:no-underline focus:outline-none focus:ring-2 focus:ring-offset-2 rounded"
+              [class]="actionColorClass()"
+              (click)="onCopyReference()"
+            >
+              {{ (copied() ? 'notifications.copied' : 'notifications.copy') | translate }}
+            </button>
+          </div>
+        }
+
         <!-- Action Button -->
         @if (notification().action) {
           <button
@@ -84,6 +105,14 @@ export class ToastItemComponent {
   readonly notification = input.required<Notification>();
   readonly dismiss = output<string>();
 
+  /** Reference code was copied to the clipboard; resets after a moment */
+  readonly copied = signal(false);
+  private copiedTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => clearTimeout(this.copiedTimeout));
+  }
+
   readonly toastClasses = computed(() => {
     const type = this.notification().type;
     const baseClasses =
@@ -158,6 +187,22 @@ export class ToastItemComponent {
     this.dismiss.emit(this.notification().id);
   }
 
+  onCopyReference(): void {
+    const reference = this.notification().reference;
+    if (!reference || typeof navigator === 'undefined' || !navigator.clipboard) {
+      return;
+    }
+
+    navigator.clipboard.writeText(reference).then(
+      () => {
+        this.copied.set(true);
+        clearTimeout(this.copiedTimeout);
+        this.copiedTimeout = setTimeout(() => this.copied.set(false), COPIED_RESET_DELAY);
+      },
+      () => this.copied.set(false)
+    );
+  }
+
   onAction(): void {
     const action = this.notification().action;
     if (action?.callback) {
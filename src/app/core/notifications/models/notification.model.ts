@@ -32,6 +32,8 @@ export interface Notification {
   dismissible: boolean;
   timestamp: Date;
   action?: NotificationAction;
+  /** Reference code shown with a copy button (e.g. an error's correlation ID) */
+  reference?: string;
 }
 
 /**
@@ -50,6 +52,7 @@ export interface NotificationOptions {
   duration?: number;
   dismissible?: boolean;
   action?: NotificationAction;
+  reference?: string;
 }
 
 /**
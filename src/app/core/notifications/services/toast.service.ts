@@ -1,4 +1,5 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { AppError, ErrorService } from '../../error';
 import {
   Notification,
   NotificationType,
@@ -21,6 +22,9 @@ import {
  * // In a Guard
  * this.toastService.warning('You need to log in first');
  *
+ * // For an AppError, with its copyable reference code
+ * this.toastService.showError(appError);
+ *
  * // With options
  * this.toastService.success('Item saved', {
  *   title: 'Success',
@@ -35,6 +39,7 @@ export class ToastService {
   private readonly _notifications = signal<Notification[]>([]);
   private readonly _config = signal<ToastConfig>(DEFAULT_TOAST_CONFIG);
   private readonly timeoutMap = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly errorService = inject(ErrorService);
 
   /** Read-only notifications signal */
   readonly notifications = this._notifications.asReadonly();
@@ -62,6 +67,19 @@ export class ToastService {
     });
   }
 
+  /**
+   * Show an error notification for an AppError
+   *
+   * Displays the user message with the error's reference code, so users can
+   * quote it to support.
+   */
+  showError(error: AppError, options?: NotificationOptions): string {
+    return this.error(error.userMessage, {
+      reference: this.errorService.getReferenceCode(error),
+      ...options,
+    });
+  }
+
   /**
    * Show a warning notification
    */
@@ -96,6 +114,7 @@ export class ToastService {
       dismissible: options?.dismissible ?? true,
       timestamp: new Date(),
       action: options?.action,
+      reference: options?.reference,
     };
 
     this._notifications.update((current) => {
@@ -0,0 +1,10 @@
+/**
+ * Performance Module
+ *
+ * Request timing telemetry: durations per endpoint, slow request
+ * reporting through pluggable hooks.
+ */
+
+export * from './models';
+export * from './services';
+export * from './interceptors';
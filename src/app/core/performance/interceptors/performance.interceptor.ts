@@ -0,0 +1,92 @@
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { defer, tap } from 'rxjs';
+import { DEFAULT_API_TARGET, ResolvedApiTarget, resolveApiTarget } from '../../api/api-targets';
+import { AppError, CORRELATION_ID_HEADER } from '../../error';
+import { PerformanceMonitorService } from '../services/performance-monitor.service';
+
+/**
+ * Endpoint a request belongs to, as a path template (e.g. `/users/:id`)
+ *
+ * Set by BaseApiService.call() from the endpoint definition. Other requests
+ * are grouped by their path with id-like segments replaced by `:id`.
+ */
+export const REQUEST_ENDPOINT = new HttpContextToken<string | null>(() => null);
+
+/**
+ * Path segments that look like ids (numbers, UUIDs, long hex strings)
+ */
+const ID_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,})$/i;
+
+/**
+ * Name the endpoint of a request, e.g. `GET /users/:id` or `GET hr:/leaves`
+ */
+function getEndpointName(req: HttpRequest<unknown>, target: ResolvedApiTarget): string {
+  const template =
+    req.context.get(REQUEST_ENDPOINT) ??
+    target.path
+      .split('/')
+      .map((segment) => (ID_SEGMENT_PATTERN.test(segment) ? ':id' : segment))
+      .join('/');
+  const prefix = target.name === DEFAULT_API_TARGET ? '' : `${target.name}:`;
+
+  return `${req.method} ${prefix}${template}`;
+}
+
+/**
+ * HTTP Performance Interceptor
+ *
+ * Functional interceptor that measures API requests from sending to the
+ * final response or error (retries included) and records the duration per
+ * endpoint in PerformanceMonitorService. Cancelled requests and URLs
+ * outside the API targets (assets, translations) are not recorded.
+ *
+ * Register it before errorInterceptor so that failures arrive as AppErrors.
+ */
+export const performanceInterceptor: HttpInterceptorFn = (req, next) => {
+  const target = resolveApiTarget(req.url);
+
+  if (!target) {
+    return next(req);
+  }
+
+  const monitor = inject(PerformanceMonitorService);
+  const endpoint = getEndpointName(req, target);
+
+  return defer(() => {
+    const start = performance.now();
+    const record = (status: number, errorCode?: string) =>
+      monitor.record({
+        endpoint,
+        method: req.method,
+        url: req.urlWithParams,
+        correlationId: req.headers.get(CORRELATION_ID_HEADER) ?? undefined,
+        status,
+        errorCode,
+        duration: Math.round(performance.now() - start),
+      });
+
+    return next(req).pipe(
+      tap({
+        next: (event) => {
+          if (event instanceof HttpResponse) {
+            record(event.status);
+          }
+        },
+        error: (error: AppError | HttpErrorResponse) => {
+          if (error instanceof HttpErrorResponse) {
+            record(error.status, `HTTP_${error.status}`);
+          } else {
+            record(error?.context?.statusCode ?? 0, error?.code);
+          }
+        },
+      })
+    );
+  });
+};
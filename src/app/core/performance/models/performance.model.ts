@@ -0,0 +1,57 @@
+/**
+ * Performance Models
+ *
+ * Type definitions for request timing telemetry.
+ */
+
+/**
+ * Timing of one completed request
+ */
+export interface RequestTiming {
+  /** Endpoint the request belongs to, e.g. `GET /users/:id` or `GET hr:/leaves` */
+  endpoint: string;
+  method: string;
+  url: string;
+  /** X-Correlation-ID of the request, to find it in the backend logs */
+  correlationId?: string;
+  /** HTTP status, 0 for network failures and timeouts */
+  status: number;
+  /** AppError code of a failed request, e.g. 'HTTP_TIMEOUT' */
+  errorCode?: string;
+  /** Time from sending to the final response or error (ms), retries included */
+  duration: number;
+  /** Duration exceeded the slow request threshold */
+  slow: boolean;
+  timestamp: Date;
+}
+
+/**
+ * Aggregated timings of one endpoint
+ */
+export interface EndpointTimingStats {
+  endpoint: string;
+  count: number;
+  errorCount: number;
+  slowCount: number;
+  averageDuration: number;
+  p95Duration: number;
+  maxDuration: number;
+}
+
+/**
+ * Performance monitoring configuration
+ */
+export interface PerformanceConfig {
+  /** Requests taking longer than this (ms) are reported as slow */
+  slowRequestThreshold: number;
+  /** Durations kept per endpoint for the statistics */
+  maxSamplesPerEndpoint: number;
+}
+
+/**
+ * Default performance monitoring configuration
+ */
+export const DEFAULT_PERFORMANCE_CONFIG: PerformanceConfig = {
+  slowRequestThreshold: 3000,
+  maxSamplesPerEndpoint: 100,
+};
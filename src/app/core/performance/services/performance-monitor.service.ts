@@ -0,0 +1,175 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import {
+  DEFAULT_PERFORMANCE_CONFIG,
+  EndpointTimingStats,
+  PerformanceConfig,
+  RequestTiming,
+} from '../models/performance.model';
+
+/**
+ * Performance hook interface
+ *
+ * Implement this interface to send request timings to a monitoring backend
+ * (e.g., Sentry performance, Application Insights, custom backend)
+ */
+export interface PerformanceHook {
+  name: string;
+  report(timing: RequestTiming): void | Promise<void>;
+  shouldReport?(timing: RequestTiming): boolean;
+}
+
+/**
+ * Injection token for performance hooks
+ */
+export const PERFORMANCE_HOOKS = new InjectionToken<PerformanceHook[]>('PERFORMANCE_HOOKS');
+
+/**
+ * Injection token for the performance monitoring configuration
+ */
+export const PERFORMANCE_CONFIG = new InjectionToken<PerformanceConfig>('PERFORMANCE_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_PERFORMANCE_CONFIG,
+});
+
+/**
+ * PerformanceMonitorService
+ *
+ * Collects request durations per endpoint and reports them through
+ * pluggable hooks.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PerformanceMonitorService {
+  private readonly hooks = inject(PERFORMANCE_HOOKS, { optional: true }) || [];
+  private readonly config = inject(PERFORMANCE_CONFIG);
+  private readonly samples = new Map<string, RequestTiming[]>();
+
+  /**
+   * Record a request timing and pass it to all registered hooks
+   */
+  record(timing: Omit<RequestTiming, 'slow' | 'timestamp'>): RequestTiming {
+    const entry: RequestTiming = {
+      ...timing,
+      slow: timing.duration > this.config.slowRequestThreshold,
+      timestamp: new Date(),
+    };
+
+    this.addSample(entry);
+
+    for (const hook of this.hooks) {
+      if (!hook.shouldReport || hook.shouldReport(entry)) {
+        try {
+          hook.report(entry);
+        } catch (hookError) {
+          console.warn(`Performance hook "${hook.name}" failed:`, hookError);
+        }
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Statistics per endpoint, slowest average first
+   */
+  getStats(): EndpointTimingStats[] {
+    return [...this.samples.entries()]
+      .map(([endpoint, timings]) => this.computeStats(endpoint, timings))
+      .sort((a, b) => b.averageDuration - a.averageDuration);
+  }
+
+  /**
+   * Most recent slow requests across all endpoints
+   */
+  getSlowRequests(count = 20): RequestTiming[] {
+    return [...this.samples.values()]
+      .flat()
+      .filter((timing) => timing.slow)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(-count);
+  }
+
+  /**
+   * Clear the collected timings
+   */
+  clear(): void {
+    this.samples.clear();
+  }
+
+  private addSample(timing: RequestTiming): void {
+    const timings = this.samples.get(timing.endpoint) ?? [];
+    timings.push(timing);
+
+    // Trim samples if too many
+    if (timings.length > this.config.maxSamplesPerEndpoint) {
+      timings.shift();
+    }
+
+    this.samples.set(timing.endpoint, timings);
+  }
+
+  private computeStats(endpoint: string, timings: RequestTiming[]): EndpointTimingStats {
+    const durations = timings.map((timing) => timing.duration).sort((a, b) => a - b);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+    return {
+      endpoint,
+      count: timings.length,
+      errorCount: timings.filter((timing) => timing.errorCode !== undefined).length,
+      slowCount: timings.filter((timing) => timing.slow).length,
+      averageDuration: Math.round(total / durations.length),
+      p95Duration: durations[Math.min(durations.length - 1, Math.ceil(durations.length * 0.95) - 1)],
+      maxDuration: durations[durations.length - 1],
+    };
+  }
+}
+
+/**
+ * Console performance hook
+ *
+ * Warns about slow requests in the browser console during development.
+ */
+export class ConsolePerformanceHook implements PerformanceHook {
+  name = 'console';
+
+  report(timing: RequestTiming): void {
+    console.warn(`[Slow request] ${timing.endpoint} took ${timing.duration}ms`, timing);
+  }
+
+  shouldReport(timing: RequestTiming): boolean {
+    // Only slow requests, only in development
+    return (
+      timing.slow &&
+      typeof window !== 'undefined' &&
+      (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1')
+    );
+  }
+}
+
+/**
+ * Example: Remote performance hook
+ *
+ * Template for sending slow request timings to a monitoring backend.
+ */
+export abstract class RemotePerformanceHook implements PerformanceHook {
+  abstract name: string;
+  abstract endpoint: string;
+
+  async report(timing: RequestTiming): Promise<void> {
+    try {
+      await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...timing, timestamp: timing.timestamp.toISOString() }),
+      });
+    } catch {
+      // Silent fail for telemetry - don't cause cascading errors
+    }
+  }
+
+  shouldReport(timing: RequestTiming): boolean {
+    // Only slow requests by default
+    return timing.slow;
+  }
+}
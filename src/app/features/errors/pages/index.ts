@@ -0,0 +1,2 @@
+export * from './unauthorized';
+export * from './not-found';
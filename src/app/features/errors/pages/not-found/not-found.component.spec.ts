@@ -0,0 +1,27 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { NotFoundComponent } from './not-found.component';
+
+describe('NotFoundComponent', () => {
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([{ path: '**', component: NotFoundComponent }]),
+        importProvidersFrom(TranslateModule.forRoot()),
+      ],
+    });
+  });
+
+  it('should show the URL that no route matched', async () => {
+    const harness = await RouterTestingHarness.create();
+    await harness.navigateByUrl('/reports/2024?tab=summary');
+
+    const page = harness.routeNativeElement;
+
+    expect(page?.textContent).toContain('404');
+    expect(page?.querySelector('code')?.textContent).toBe('/reports/2024?tab=summary');
+  });
+});
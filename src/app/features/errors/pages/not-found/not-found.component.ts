@@ -0,0 +1,23 @@
+/**
+ * Not Found Component
+ *
+ * 404 page for URLs no route matches. The router keeps the unmatched URL,
+ * which the page shows.
+ */
+
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { TranslateModule } from '@ngx-translate/core';
+
+@Component({
+  selector: 'app-not-found',
+  standalone: true,
+  imports: [CommonModule, RouterLink, TranslateModule],
+  templateUrl: './not-found.component.html',
+})
+export class NotFoundComponent {
+  private readonly router = inject(Router);
+
+  readonly attemptedUrl = this.router.url;
+}
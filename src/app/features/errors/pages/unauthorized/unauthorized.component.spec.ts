@@ -0,0 +1,66 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { KeycloakService } from '../../../../core/auth';
+import { KeycloakServiceStub } from '../../../../core/auth/testing/keycloak-service.stub';
+import { environment } from '../../../../../environments/environment';
+import { UnauthorizedComponent } from './unauthorized.component';
+
+describe('UnauthorizedComponent', () => {
+  let harness: RouterTestingHarness;
+
+  beforeEach(async () => {
+    const keycloak = new KeycloakServiceStub();
+    keycloak.signIn(['user']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([{ path: 'unauthorized', component: UnauthorizedComponent }]),
+        importProvidersFrom(TranslateModule.forRoot()),
+        { provide: KeycloakService, useValue: keycloak },
+      ],
+    });
+
+    const translate = TestBed.inject(TranslateService);
+    translate.setTranslation('en', {
+      errorPages: {
+        unauthorized: {
+          requestSubject: 'Access request: {{url}}',
+          requestBody: 'Please grant {{user}} access to {{url}}',
+        },
+      },
+    });
+    translate.use('en');
+
+    harness = await RouterTestingHarness.create();
+  });
+
+  it('should show the page the user tried to open', async () => {
+    await harness.navigateByUrl('/unauthorized?url=%2Fusers%2Fimport');
+
+    expect(harness.routeNativeElement?.querySelector('code')?.textContent).toBe('/users/import');
+  });
+
+  it('should not show a page when the guard passed none', async () => {
+    await harness.navigateByUrl('/unauthorized');
+
+    expect(harness.routeNativeElement?.querySelector('code')).toBeNull();
+  });
+
+  it('should prefill the access request email with the user and the page', async () => {
+    const page = await harness.navigateByUrl(
+      '/unauthorized?url=%2Fusers%2Fimport',
+      UnauthorizedComponent
+    );
+
+    const href = page.requestAccessHref();
+
+    expect(href).toContain(`mailto:${environment.supportEmail}?`);
+    expect(href).toContain(`subject=${encodeURIComponent('Access request: /users/import')}`);
+    expect(href).toContain(
+      `body=${encodeURIComponent('Please grant test access to /users/import')}`
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unauthorized Component
+ *
+ * 403 page shown by roleGuard and permissionGuard, which pass the page the
+ * user tried to open in the `url` query param. Offers a way back to the
+ * dashboard and an email to support asking for access.
+ */
+
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { map } from 'rxjs';
+import { KeycloakService } from '../../../../core/auth';
+import { environment } from '../../../../../environments/environment';
+
+@Component({
+  selector: 'app-unauthorized',
+  standalone: true,
+  imports: [CommonModule, RouterLink, TranslateModule],
+  templateUrl: './unauthorized.component.html',
+})
+export class UnauthorizedComponent {
+  private readonly route = inject(ActivatedRoute);
+  private readonly translate = inject(TranslateService);
+  private readonly keycloakService = inject(KeycloakService);
+
+  readonly attemptedUrl = toSignal(
+    this.route.queryParamMap.pipe(map((params) => params.get('url'))),
+    { initialValue: null }
+  );
+
+  /**
+   * Prefilled email to support naming the user and the page, in the
+   * current language
+   */
+  requestAccessHref(): string {
+    const user = this.keycloakService.getUser();
+    const params = {
+      url: this.attemptedUrl() ?? '/',
+      user: user?.preferred_username ?? user?.email ?? '',
+    };
+    const subject = this.translate.instant('errorPages.unauthorized.requestSubject', params);
+    const body = this.translate.instant('errorPages.unauthorized.requestBody', params);
+
+    return (
+      `mailto:${environment.supportEmail}` +
+      `?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+    );
+  }
+}
@@ -1,29 +1,50 @@
 /**
  * User Detail Component
  *
- * Example component for displaying user details.
+ * Example component for displaying user details. The route's userResolver
+ * selects the user and loads it when the page is opened directly.
  */
 
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ActivatedRoute, Router } from '@angular/router';
+import { Router } from '@angular/router';
 import { Store } from '@ngrx/store';
-import { UsersActions, selectSelectedUser } from '../../store';
+import { TranslateModule } from '@ngx-translate/core';
+import { HttpErrorCode } from '../../../../core/error';
+import { CanDirective } from '../../../../shared/directives';
+import {
+  UsersActions,
+  selectSelectedUser,
+  selectSelectedUserId,
+  selectSelectedUserStatus,
+} from '../../store';
 
 @Component({
   selector: 'app-user-detail',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, TranslateModule, CanDirective],
   template: `
     <div class="user-detail">
       @if (user(); as user) {
         <h2>{{ user.name }}</h2>
-        <p><strong>Email:</strong> {{ user.email }}</p>
-        <p><strong>ID:</strong> {{ user.id }}</p>
-        <button (click)="goBack()">Back to List</button>
-      } @else {
-        <p>User not found</p>
+        <p><strong>{{ 'users.email' | translate }}:</strong> {{ user.email }}</p>
+        <p><strong>{{ 'users.id' | translate }}:</strong> {{ user.id }}</p>
+        @if (user.role) {
+          <p><strong>{{ 'users.role' | translate }}:</strong> {{ 'users.roles.' + user.role | translate }}</p>
+        }
+        <button *appCan="'users.edit'" (click)="edit(user.id)">{{ 'common.edit' | translate }}</button>
+      } @else if (status().loading) {
+        <p>{{ 'users.loadingUser' | translate }}</p>
+      } @else if (isNotFound()) {
+        <h2>{{ 'users.userNotFound' | translate }}</h2>
+        <p>{{ 'users.userNotFoundDescription' | translate: { id: userId() } }}</p>
+      } @else if (status().error; as error) {
+        <h2>{{ 'users.loadFailed' | translate }}</h2>
+        <p>{{ error.userMessage }}</p>
+        <button (click)="retry()">{{ 'common.retry' | translate }}</button>
       }
+
+      <button (click)="goBack()">{{ 'users.backToList' | translate }}</button>
     </div>
   `,
   styles: [`
@@ -35,25 +56,35 @@ import { UsersActions, selectSelectedUser } from '../../store';
       padding: 8px 16px;
       cursor: pointer;
       margin-top: 10px;
+      margin-inline-end: 8px;
     }
   `],
 })
-export class UserDetailComponent implements OnInit {
+export class UserDetailComponent {
   // Inject dependencies
   private store = inject(Store);
-  private route = inject(ActivatedRoute);
   private router = inject(Router);
 
-  // Select user from store
+  // Select user and its request status from store
   user = this.store.selectSignal(selectSelectedUser);
+  userId = this.store.selectSignal(selectSelectedUserId);
+  status = this.store.selectSignal(selectSelectedUserStatus);
+
+  isNotFound = computed(
+    () => this.status().error?.context?.statusCode === HttpErrorCode.NotFound
+  );
 
-  ngOnInit(): void {
-    const userId = this.route.snapshot.paramMap.get('id');
+  retry(): void {
+    const userId = this.userId();
     if (userId) {
-      this.store.dispatch(UsersActions.selectUser({ userId }));
+      this.store.dispatch(UsersActions.loadUser({ userId }));
     }
   }
 
+  edit(userId: string): void {
+    this.router.navigate(['/users', userId, 'edit']);
+  }
+
   goBack(): void {
     this.router.navigate(['/users']);
   }
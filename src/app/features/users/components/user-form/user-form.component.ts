@@ -0,0 +1,223 @@
+/**
+ * User Form Component
+ *
+ * Create and edit form for users. Edit mode (a route with `:id`) gets its
+ * user from the route's userResolver; when it cannot be loaded, the form
+ * redirects to the detail page, which shows the not-found or load error.
+ * Server-side 422 errors are put back on the matching controls, translated.
+ */
+
+import { Component, DestroyRef, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Actions, ofType } from '@ngrx/effects';
+import { Store } from '@ngrx/store';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { filter, take } from 'rxjs';
+import { AppError, ErrorService } from '../../../../core/error';
+import { FieldErrorComponent } from '../../../../shared/components';
+import { CreateUserDto, USER_ROLES } from '../../../../shared/models';
+import { applyServerErrors, translateServerError } from '../../../../shared/utils';
+import { UsersActions, User } from '../../store';
+
+/**
+ * Messages of server errors on each field that come without a known code
+ */
+const SERVER_ERROR_MESSAGE_KEYS: Record<string, string> = {
+  name: 'validation.invalidName',
+  email: 'validation.email',
+  role: 'validation.invalidRole',
+};
+
+@Component({
+  selector: 'app-user-form',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslateModule, FieldErrorComponent],
+  template: `
+    @if (!isEdit || user) {
+      <div class="user-form">
+        <h2>{{ (isEdit ? 'users.editUser' : 'users.createUser') | translate }}</h2>
+
+        <form [formGroup]="form" (ngSubmit)="submit()" novalidate>
+          <label>
+            {{ 'users.name' | translate }}
+            <input type="text" formControlName="name" autocomplete="name" />
+            <app-field-error [control]="form.controls.name" />
+          </label>
+
+          <label>
+            {{ 'users.email' | translate }}
+            <input type="email" formControlName="email" autocomplete="email" />
+            <app-field-error [control]="form.controls.email" />
+          </label>
+
+          <label>
+            {{ 'users.role' | translate }}
+            <select formControlName="role">
+              @for (role of roles; track role) {
+                <option [value]="role">{{ 'users.roles.' + role | translate }}</option>
+              }
+            </select>
+            <app-field-error [control]="form.controls.role" />
+          </label>
+
+          @if (formError(); as error) {
+            <p class="form-error" role="alert">{{ error }}</p>
+          }
+
+          <div class="actions">
+            <button type="submit" [disabled]="submitting()">
+              {{ (isEdit ? 'common.save' : 'common.create') | translate }}
+            </button>
+            <button type="button" (click)="cancel()">{{ 'common.cancel' | translate }}</button>
+          </div>
+        </form>
+      </div>
+    }
+  `,
+  styles: [`
+    .user-form {
+      padding: 20px;
+      max-width: 480px;
+    }
+
+    label {
+      display: block;
+      margin-bottom: 12px;
+    }
+
+    input,
+    select {
+      display: block;
+      width: 100%;
+      margin-top: 4px;
+      padding: 8px;
+      border: 1px solid #d1d5db;
+      border-radius: 4px;
+    }
+
+    .form-error {
+      color: #dc2626;
+    }
+
+    button {
+      padding: 8px 16px;
+      cursor: pointer;
+      margin-inline-end: 8px;
+    }
+  `],
+})
+export class UserFormComponent {
+  // Inject dependencies
+  private store = inject(Store);
+  private actions$ = inject(Actions);
+  private errorService = inject(ErrorService);
+  private translate = inject(TranslateService);
+  private router = inject(Router);
+  private fb = inject(FormBuilder);
+  private destroyRef = inject(DestroyRef);
+  private route = inject(ActivatedRoute);
+
+  /** ID of the user being edited, null when creating */
+  readonly userId: string | null = this.route.snapshot.paramMap.get('id');
+  readonly isEdit = this.userId !== null;
+  /** User being edited; null when creating or when it could not be loaded */
+  readonly user: User | null = this.route.snapshot.data['user'] ?? null;
+  readonly roles = USER_ROLES;
+
+  readonly form = this.fb.nonNullable.group({
+    name: [this.user?.name ?? '', [Validators.required, Validators.maxLength(100)]],
+    email: [this.user?.email ?? '', [Validators.required, Validators.email]],
+    role: [this.user?.role ?? 'user', [Validators.required]],
+  });
+
+  submitting = signal(false);
+  formError = signal<string | null>(null);
+
+  constructor() {
+    // Never fall back to create mode for a user that could not be loaded
+    if (this.isEdit && !this.user) {
+      this.router.navigate(['/users', this.userId], { replaceUrl: true });
+    }
+  }
+
+  submit(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.submitting.set(true);
+    this.formError.set(null);
+
+    if (this.user) {
+      this.update(this.user, this.form.getRawValue());
+    } else if (!this.isEdit) {
+      this.create(this.form.getRawValue());
+    }
+  }
+
+  cancel(): void {
+    this.router.navigate(this.isEdit ? ['/users', this.userId] : ['/users']);
+  }
+
+  private create(dto: CreateUserDto): void {
+    this.actions$
+      .pipe(
+        ofType(UsersActions.addUserSuccess, UsersActions.addUserFailure),
+        take(1),
+        // Leaving the page drops the result: no navigation or errors afterwards
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe((action) =>
+        'user' in action ? this.saved(action.user.id) : this.failed(action.error)
+      );
+
+    this.store.dispatch(UsersActions.addUser({ user: dto }));
+  }
+
+  private update(user: User, dto: CreateUserDto): void {
+    const action = UsersActions.updateUser({ user: { ...user, ...dto }, fromForm: true });
+
+    this.actions$
+      .pipe(
+        ofType(
+          UsersActions.updateUserSuccess,
+          UsersActions.updateUserQueued,
+          UsersActions.updateUserFailure
+        ),
+        filter(({ operationId }) => operationId === action.operationId),
+        take(1),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe((result) =>
+        'user' in result ? this.saved(result.user.id) : this.failed(result.error)
+      );
+
+    this.store.dispatch(action);
+  }
+
+  private saved(userId: string): void {
+    this.submitting.set(false);
+    this.router.navigate(['/users', userId]);
+  }
+
+  /**
+   * Show field errors on their controls and anything else above the buttons
+   */
+  private failed(error: AppError): void {
+    this.submitting.set(false);
+
+    const validationErrors = this.errorService.getValidationErrors(error);
+    const unmatched = applyServerErrors(this.form, validationErrors, SERVER_ERROR_MESSAGE_KEYS);
+
+    if (validationErrors.length === 0) {
+      this.formError.set(error.userMessage);
+    } else if (unmatched.length > 0) {
+      const messages = unmatched.map((e) => translateServerError(this.translate, e));
+      this.formError.set([...new Set(messages)].join(' '));
+    }
+  }
+}
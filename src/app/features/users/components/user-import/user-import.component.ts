@@ -0,0 +1,176 @@
+/**
+ * User Import Component
+ *
+ * Bulk user import from a CSV file, in steps: pick the file, map its
+ * columns to user fields, review the validated rows, then create the valid
+ * ones and see the outcome of each. Rows that were skipped or failed can be
+ * downloaded as an error report.
+ */
+
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router } from '@angular/router';
+import { TranslateModule } from '@ngx-translate/core';
+import {
+  USER_IMPORT_FIELDS,
+  USER_IMPORT_MAX_ROWS,
+  UserImportField,
+  UserImportFile,
+  UserImportMapping,
+  UserImportResult,
+  UserImportRow,
+  UsersImportService,
+} from '../../services/users-import.service';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'results';
+
+/**
+ * Fields a row cannot be created without
+ */
+const REQUIRED_FIELDS: readonly UserImportField[] = ['name', 'email'];
+
+@Component({
+  selector: 'app-user-import',
+  standalone: true,
+  imports: [CommonModule, TranslateModule],
+  templateUrl: './user-import.component.html',
+})
+export class UserImportComponent {
+  // Inject dependencies
+  private importService = inject(UsersImportService);
+  private router = inject(Router);
+  private destroyRef = inject(DestroyRef);
+
+  readonly fields = USER_IMPORT_FIELDS;
+  readonly requiredFields = REQUIRED_FIELDS;
+  readonly maxRows = USER_IMPORT_MAX_ROWS;
+
+  step = signal<ImportStep>('upload');
+  file = signal<UserImportFile | null>(null);
+  fileError = signal<string | null>(null);
+  mapping = signal<UserImportMapping>({ name: null, email: null, role: null });
+
+  mappingComplete = computed(() =>
+    REQUIRED_FIELDS.every((field) => this.mapping()[field] !== null)
+  );
+
+  // Preview
+  rows = signal<UserImportRow[]>([]);
+  validRows = computed(() => this.rows().filter((row) => row.errors.length === 0));
+  invalidRows = computed(() => this.rows().filter((row) => row.errors.length > 0));
+
+  // Import progress and outcome
+  results = signal<UserImportResult[]>([]);
+  importing = signal(false);
+  createdCount = computed(() => this.results().filter((r) => r.status === 'created').length);
+  failedResults = computed(() => this.results().filter((r) => r.status === 'failed'));
+  progress = computed(() =>
+    this.validRows().length === 0
+      ? 0
+      : Math.round((this.results().length / this.validRows().length) * 100)
+  );
+  hasErrorReport = computed(
+    () => this.invalidRows().length > 0 || this.failedResults().length > 0
+  );
+
+  async selectFile(input: HTMLInputElement): Promise<void> {
+    const selected = input.files?.[0];
+    input.value = '';
+
+    if (!selected) {
+      return;
+    }
+
+    this.fileError.set(null);
+
+    try {
+      const file = await this.importService.readFile(selected);
+      this.file.set(file);
+      this.mapping.set(this.importService.guessMapping(file.headers));
+      this.step.set('mapping');
+    } catch (error) {
+      this.fileError.set(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  setMapping(field: UserImportField, column: string): void {
+    this.mapping.update((mapping) => ({
+      ...mapping,
+      [field]: column === '' ? null : Number(column),
+    }));
+  }
+
+  preview(): void {
+    const file = this.file();
+    if (!file || !this.mappingComplete()) {
+      return;
+    }
+
+    this.rows.set(this.importService.validate(file, this.mapping()));
+    this.step.set('preview');
+  }
+
+  /**
+   * Create the valid rows; invalid rows are skipped and go to the error report
+   */
+  startImport(): void {
+    if (this.validRows().length === 0) {
+      return;
+    }
+
+    this.results.set([]);
+    this.importing.set(true);
+    this.step.set('results');
+
+    this.importService
+      .import(this.validRows())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (result) => this.results.update((results) => [...results, result]),
+        complete: () => this.importing.set(false),
+      });
+  }
+
+  downloadErrorReport(): void {
+    const file = this.file();
+    if (!file) {
+      return;
+    }
+
+    this.importService.downloadErrorReport(file, [
+      ...this.invalidRows().map((row) => ({
+        row,
+        error: this.importService.describeErrors(row.errors),
+      })),
+      ...this.failedResults().map(({ row, error }) => ({ row, error: error ?? '' })),
+    ]);
+  }
+
+  describeErrors(row: UserImportRow): string {
+    return this.importService.describeErrors(row.errors);
+  }
+
+  /**
+   * Cell of a row for the given field, as read from the file
+   */
+  cell(row: UserImportRow, field: UserImportField): string {
+    const column = this.mapping()[field];
+    return column === null ? '' : (row.values[column] ?? '');
+  }
+
+  back(): void {
+    this.step.update((step) => (step === 'preview' ? 'mapping' : 'upload'));
+  }
+
+  restart(): void {
+    this.file.set(null);
+    this.rows.set([]);
+    this.results.set([]);
+    this.step.set('upload');
+  }
+
+  goToUsers(): void {
+    this.router.navigate(['/users']);
+  }
+}
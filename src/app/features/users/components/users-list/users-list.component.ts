@@ -1,76 +1,270 @@
 /**
  * Users List Component
  *
- * Example component demonstrating NgRx with signals integration.
+ * Users table with server-side sorting, search, role filter and paging,
+ * column visibility and bulk delete. The URL query string is the source of
+ * truth for the table state: controls navigate, and every query param
+ * change is dispatched to the store, which loads the page.
  */
 
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, computed, effect, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { Store } from '@ngrx/store';
-import { UsersActions, selectAllUsers, selectUsersLoading } from '../../store';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { debounceTime, distinctUntilChanged, filter, map } from 'rxjs';
+import { PermissionService } from '../../../../core/auth';
+import { ErrorService } from '../../../../core/error';
+import { ToastService } from '../../../../core/notifications';
+import { CanDirective } from '../../../../shared/directives';
+import { USER_ROLES, UserSortField } from '../../../../shared/models';
+import {
+  MAX_EXPORT_ROWS,
+  UsersExportFormat,
+  UsersExportScope,
+  UsersExportService,
+} from '../../services/users-export.service';
+import {
+  UsersActions,
+  UsersQuery,
+  selectAllUsers,
+  selectPendingOperations,
+  selectTotalPages,
+  selectUsersError,
+  selectUsersLoading,
+  selectUsersTotal,
+} from '../../store';
+import {
+  USER_PAGE_SIZES,
+  USER_TABLE_COLUMNS,
+  UserTableColumn,
+  parseUsersTableParams,
+  toUsersTableParams,
+} from '../../utils/users-query-params';
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 @Component({
   selector: 'app-users-list',
   standalone: true,
-  imports: [CommonModule],
-  template: `
-    <div class="users-list">
-      <h2>Users</h2>
-
-      @if (isLoading()) {
-        <p>Loading users...</p>
-      } @else {
-        <ul>
-          @for (user of users(); track user.id) {
-            <li>
-              <strong>{{ user.name }}</strong> - {{ user.email }}
-            </li>
-          } @empty {
-            <li>No users found</li>
-          }
-        </ul>
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, TranslateModule, CanDirective],
+  templateUrl: './users-list.component.html',
+})
+export class UsersListComponent {
+  // Inject dependencies
+  private store = inject(Store);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
+  private translate = inject(TranslateService);
+  private exportService = inject(UsersExportService);
+  private errorService = inject(ErrorService);
+  private toastService = inject(ToastService);
+  private permissionService = inject(PermissionService);
+
+  readonly roles = USER_ROLES;
+  readonly columns = USER_TABLE_COLUMNS;
+  readonly pageSizes = USER_PAGE_SIZES;
+  readonly exportOptions: { format: UsersExportFormat; scope: UsersExportScope }[] = [
+    { format: 'csv', scope: 'page' },
+    { format: 'csv', scope: 'all' },
+    { format: 'xlsx', scope: 'page' },
+    { format: 'xlsx', scope: 'all' },
+  ];
+
+  // NgRx with signals integration
+  users = this.store.selectSignal(selectAllUsers);
+  isLoading = this.store.selectSignal(selectUsersLoading);
+  error = this.store.selectSignal(selectUsersError);
+  total = this.store.selectSignal(selectUsersTotal);
+  totalPages = this.store.selectSignal(selectTotalPages);
+  private pendingOperations = this.store.selectSignal(selectPendingOperations);
+
+  canDelete = this.permissionService.can('users.delete');
+
+  // Table state from the URL
+  private params = toSignal(this.route.queryParamMap.pipe(map(parseUsersTableParams)), {
+    requireSync: true,
+  });
+  query = computed(() => this.params().query);
+  hiddenColumns = computed(() => new Set<string>(this.params().hiddenColumns));
+  visibleColumns = computed(() => this.columns.filter((c) => !this.hiddenColumns().has(c)));
+
+  searchControl = new FormControl('', { nonNullable: true });
+
+  // Row selection, reset whenever the query changes
+  selection = signal<ReadonlySet<string>>(new Set());
+  selectedUsers = computed(() => this.users().filter((user) => this.selection().has(user.id)));
+  allSelected = computed(
+    () => this.users().length > 0 && this.selectedUsers().length === this.users().length
+  );
+  exporting = signal(false);
+  pendingUserIds = computed(
+    () => new Set(Object.values(this.pendingOperations()).map((operation) => operation.userId))
+  );
+
+  constructor() {
+    // URL -> store; column visibility alone does not reload
+    this.route.queryParamMap
+      .pipe(
+        map((params) => parseUsersTableParams(params).query),
+        distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b)),
+        takeUntilDestroyed()
+      )
+      .subscribe((query) => {
+        this.searchControl.setValue(query.search, { emitEvent: false });
+        this.selection.set(new Set());
+        this.store.dispatch(UsersActions.setQuery({ query }));
+      });
+
+    // Debounced search -> URL
+    this.searchControl.valueChanges
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE_MS),
+        map((search) => search.trim()),
+        filter((search) => search !== this.query().search),
+        takeUntilDestroyed()
+      )
+      .subscribe((search) => this.navigate({ search, page: 1 }));
+
+    // Step back to the last page when the page is past the end, e.g. after
+    // deleting all users of the last page
+    effect(() => {
+      const lastPage = this.totalPages();
+      if (
+        !this.isLoading() &&
+        !this.error() &&
+        this.users().length === 0 &&
+        this.query().page > lastPage
+      ) {
+        this.navigate({ page: lastPage });
       }
+    });
+  }
+
+  reload(): void {
+    this.store.dispatch(UsersActions.loadUsers());
+  }
 
-      <button (click)="loadUsers()">Reload Users</button>
-    </div>
-  `,
-  styles: [`
-    .users-list {
-      padding: 20px;
+  /**
+   * Cycle a column through ascending, descending and unsorted
+   */
+  toggleSort(field: UserSortField): void {
+    const { sort, order } = this.query();
+
+    if (sort !== field) {
+      this.navigate({ sort: field, order: 'asc', page: 1 });
+    } else if (order === 'asc') {
+      this.navigate({ order: 'desc', page: 1 });
+    } else {
+      this.navigate({ sort: null, order: 'asc', page: 1 });
     }
+  }
 
-    ul {
-      list-style: none;
-      padding: 0;
+  sortDirection(field: UserSortField): 'ascending' | 'descending' | 'none' {
+    const { sort, order } = this.query();
+    if (sort !== field) {
+      return 'none';
     }
+    return order === 'asc' ? 'ascending' : 'descending';
+  }
 
-    li {
-      padding: 10px;
-      margin: 5px 0;
-      background: #f5f5f5;
-      border-radius: 4px;
+  setRole(role: string): void {
+    this.navigate({ filters: { ...this.query().filters, role: role || null }, page: 1 });
+  }
+
+  goToPage(page: number): void {
+    this.navigate({ page });
+  }
+
+  setPageSize(pageSize: string): void {
+    this.navigate({ pageSize: Number(pageSize), page: 1 });
+  }
+
+  toggleColumn(column: UserTableColumn): void {
+    const hidden = this.params().hiddenColumns;
+    this.navigate(
+      {},
+      hidden.includes(column) ? hidden.filter((c) => c !== column) : [...hidden, column]
+    );
+  }
+
+  isSelected(userId: string): boolean {
+    return this.selection().has(userId);
+  }
+
+  toggleRow(userId: string): void {
+    const selection = new Set(this.selection());
+    if (!selection.delete(userId)) {
+      selection.add(userId);
     }
+    this.selection.set(selection);
+  }
+
+  toggleAll(): void {
+    this.selection.set(
+      this.allSelected() ? new Set() : new Set(this.users().map((user) => user.id))
+    );
+  }
+
+  /**
+   * Delete the selected users; each delete is optimistic, and the results
+   * are reported in one toast
+   */
+  deleteSelected(): void {
+    const users = this.selectedUsers();
+    const message = this.translate.instant('users.table.confirmDelete', { count: users.length });
 
-    button {
-      margin-top: 10px;
-      padding: 8px 16px;
-      cursor: pointer;
+    if (users.length === 0 || !window.confirm(message)) {
+      return;
     }
-  `],
-})
-export class UsersListComponent implements OnInit {
-  // Inject store
-  private store = inject(Store);
 
-  // NgRx with signals integration
-  users = this.store.selectSignal(selectAllUsers);
-  isLoading = this.store.selectSignal(selectUsersLoading);
+    this.store.dispatch(UsersActions.deleteUsers({ userIds: users.map((user) => user.id) }));
+    this.selection.set(new Set());
+  }
+
+  /**
+   * Export the visible columns of the current page or of every page, up to
+   * MAX_EXPORT_ROWS users
+   */
+  async exportUsers(format: UsersExportFormat, scope: UsersExportScope): Promise<void> {
+    this.exporting.set(true);
 
-  ngOnInit(): void {
-    this.loadUsers();
+    try {
+      const { truncated } = await this.exportService.export({
+        format,
+        scope,
+        columns: this.visibleColumns(),
+        query: this.query(),
+        users: this.users(),
+      });
+
+      if (truncated) {
+        this.toastService.warning(
+          this.translate.instant('users.export.truncated', { max: MAX_EXPORT_ROWS })
+        );
+      }
+    } catch (error) {
+      this.toastService.showError(this.errorService.toAppError(error), {
+        title: this.translate.instant('users.export.failed'),
+      });
+    } finally {
+      this.exporting.set(false);
+    }
   }
 
-  loadUsers(): void {
-    this.store.dispatch(UsersActions.loadUsers());
+  createUser(): void {
+    this.router.navigate(['/users/new']);
+  }
+
+  private navigate(
+    changes: Partial<UsersQuery>,
+    hiddenColumns: UserTableColumn[] = this.params().hiddenColumns
+  ): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toUsersTableParams({ query: { ...this.query(), ...changes }, hiddenColumns }),
+    });
   }
 }
@@ -11,7 +11,7 @@ export * from './users.routes';
 // export * from './components/users-list/users-list.component';
 
 // Services (if needed outside the feature)
-// export * from './services/users.service';
+export * from './services/users.service';
 
 // Models (if needed outside the feature)
 export * from './store/state/users.state';
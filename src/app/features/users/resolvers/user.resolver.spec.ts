@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, RouterStateSnapshot, convertToParamMap } from '@angular/router';
+import { provideMockActions } from '@ngrx/effects/testing';
+import { Action } from '@ngrx/store';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+import { Observable, Subject } from 'rxjs';
+import { AppError } from '../../../core/error';
+import { UsersActions } from '../store/actions/users.actions';
+import { selectUserEntities } from '../store/selectors/users.selectors';
+import { User } from '../store/state/users.state';
+import { userResolver } from './user.resolver';
+
+describe('userResolver', () => {
+  const user: User = { id: '2', name: 'Jane Smith', email: 'jane@example.com' };
+  const error = { code: 'HTTP_404' } as AppError;
+
+  let actions$: Subject<Action>;
+  let store: MockStore;
+  let dispatch: jasmine.Spy;
+
+  beforeEach(() => {
+    actions$ = new Subject<Action>();
+
+    TestBed.configureTestingModule({
+      providers: [provideMockStore(), provideMockActions(() => actions$)],
+    });
+
+    store = TestBed.inject(MockStore);
+    dispatch = spyOn(store, 'dispatch');
+  });
+
+  function resolve(userId: string): Observable<User | null> {
+    const route = { paramMap: convertToParamMap({ id: userId }) } as ActivatedRouteSnapshot;
+    return TestBed.runInInjectionContext(() =>
+      userResolver(route, {} as RouterStateSnapshot)
+    ) as Observable<User | null>;
+  }
+
+  it('should resolve a user from the store without loading it', () => {
+    store.overrideSelector(selectUserEntities, { '2': user });
+
+    let resolved: User | null | undefined;
+    resolve('2').subscribe((value) => (resolved = value));
+
+    expect(resolved).toEqual(user);
+    expect(dispatch).toHaveBeenCalledWith(UsersActions.selectUser({ userId: '2' }));
+    expect(dispatch).not.toHaveBeenCalledWith(UsersActions.loadUser({ userId: '2' }));
+  });
+
+  describe('a user that is not in the store', () => {
+    let resolved: User | null | undefined;
+    let settled: boolean;
+
+    beforeEach(() => {
+      store.overrideSelector(selectUserEntities, {});
+      settled = false;
+
+      resolve('2').subscribe({
+        next: (value) => (resolved = value),
+        complete: () => (settled = true),
+      });
+    });
+
+    it('should load the user and wait for it', () => {
+      expect(dispatch).toHaveBeenCalledWith(UsersActions.loadUser({ userId: '2' }));
+      expect(settled).toBeFalse();
+
+      actions$.next(UsersActions.loadUserSuccess({ user }));
+
+      expect(resolved).toEqual(user);
+      expect(settled).toBeTrue();
+    });
+
+    it('should resolve null when the load fails', () => {
+      actions$.next(UsersActions.loadUserFailure({ userId: '2', error }));
+
+      expect(resolved).toBeNull();
+      expect(settled).toBeTrue();
+    });
+
+    it('should ignore results for other users', () => {
+      actions$.next(UsersActions.loadUserSuccess({ user: { ...user, id: '3' } }));
+      actions$.next(UsersActions.loadUserFailure({ userId: '3', error }));
+
+      expect(settled).toBeFalse();
+    });
+  });
+});
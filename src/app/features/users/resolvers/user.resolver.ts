@@ -0,0 +1,57 @@
+/**
+ * User Resolver
+ *
+ * Makes /users/:id work on a deep link or refresh: selects the user and
+ * loads it from the API when it is not in the store yet.
+ */
+
+import { inject } from '@angular/core';
+import { ResolveFn } from '@angular/router';
+import { Actions, ofType } from '@ngrx/effects';
+import { Store } from '@ngrx/store';
+import { EMPTY, Observable, defer, filter, map, merge, of, switchMap, take } from 'rxjs';
+import { UsersActions } from '../store/actions/users.actions';
+import { selectUserById } from '../store/selectors/users.selectors';
+import { User } from '../store/state/users.state';
+
+/**
+ * Resolve the user of the `:id` route param
+ *
+ * Waits for Load User to settle before the route renders. Resolves to null
+ * when the load fails; UserDetailComponent reads the not-found or error
+ * state from the store instead of the navigation being cancelled.
+ *
+ * @example
+ * { path: ':id', component: UserDetailComponent, resolve: { user: userResolver } }
+ */
+export const userResolver: ResolveFn<User | null> = (route) => {
+  const store = inject(Store);
+  const actions$ = inject(Actions);
+  const userId = route.paramMap.get('id') ?? '';
+
+  store.dispatch(UsersActions.selectUser({ userId }));
+
+  return store.select(selectUserById(userId)).pipe(
+    take(1),
+    switchMap((user): Observable<User | null> => {
+      if (user) {
+        return of(user);
+      }
+
+      const settled$ = actions$.pipe(
+        ofType(UsersActions.loadUserSuccess, UsersActions.loadUserFailure),
+        filter((action) => ('user' in action ? action.user.id : action.userId) === userId),
+        map((action) => ('user' in action ? action.user : null))
+      );
+
+      // Listen before dispatching so a synchronous result is not missed
+      return merge(
+        settled$,
+        defer(() => {
+          store.dispatch(UsersActions.loadUser({ userId }));
+          return EMPTY;
+        })
+      ).pipe(take(1));
+    })
+  );
+};
@@ -0,0 +1,79 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { of } from 'rxjs';
+import { PaginatedResponse } from '../../../core/api';
+import { LanguageService } from '../../../core/services';
+import { User, UserListQuery } from '../../../shared/models';
+import { initialUsersQuery } from '../store/state/users.state';
+import { MAX_EXPORT_ROWS, UsersExportOptions, UsersExportService } from './users-export.service';
+import { UsersService } from './users.service';
+
+describe('UsersExportService', () => {
+  let service: UsersExportService;
+  let getUsers: jasmine.Spy<(query: UserListQuery) => unknown>;
+
+  /** Answer page requests as if `total` users matched the query */
+  function serve(total: number): void {
+    getUsers.and.callFake(({ page = 1, pageSize = 20 }: UserListQuery) => {
+      const count = Math.max(Math.min(pageSize, total - (page - 1) * pageSize), 0);
+      const response: PaginatedResponse<User> = {
+        data: Array.from({ length: count }, (_, i) => ({
+          id: String((page - 1) * pageSize + i),
+          name: 'User',
+          email: 'user@example.com',
+        })),
+        pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+      };
+      return of(response);
+    });
+  }
+
+  const options = (scope: UsersExportOptions['scope']): UsersExportOptions => ({
+    format: 'csv',
+    scope,
+    columns: ['name', 'email'],
+    query: initialUsersQuery,
+    users: [{ id: '1', name: 'John Doe', email: 'john@example.com' }],
+  });
+
+  beforeEach(() => {
+    getUsers = jasmine.createSpy('getUsers');
+
+    TestBed.configureTestingModule({
+      providers: [
+        importProvidersFrom(TranslateModule.forRoot()),
+        { provide: UsersService, useValue: { getUsers } },
+        { provide: LanguageService, useValue: { isRTL: () => false } },
+      ],
+    });
+
+    spyOn(HTMLAnchorElement.prototype, 'click');
+    service = TestBed.inject(UsersExportService);
+  });
+
+  it('should export the users of the current page as they are', async () => {
+    const result = await service.export(options('page'));
+
+    expect(result).toEqual({ count: 1, truncated: false });
+    expect(getUsers).not.toHaveBeenCalled();
+  });
+
+  it('should fetch every page for the all scope', async () => {
+    serve(250);
+
+    const result = await service.export(options('all'));
+
+    expect(result).toEqual({ count: 250, truncated: false });
+    expect(getUsers).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at the maximum number of rows and report the export as truncated', async () => {
+    serve(MAX_EXPORT_ROWS * 3);
+
+    const result = await service.export(options('all'));
+
+    expect(result).toEqual({ count: MAX_EXPORT_ROWS, truncated: true });
+    expect(getUsers.calls.mostRecent().args[0].page).toBe(MAX_EXPORT_ROWS / 100);
+  });
+});
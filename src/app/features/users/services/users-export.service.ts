@@ -0,0 +1,164 @@
+/**
+ * Users Export Service
+ *
+ * Exports the users table to CSV or XLSX. Headers and role names are
+ * translated to the active language, and XLSX sheets are right-to-left
+ * when the UI is.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { EMPTY, Observable, expand, firstValueFrom, reduce } from 'rxjs';
+import { saveBlob } from '../../../core/api';
+import { LanguageService } from '../../../core/services';
+import { User } from '../../../shared/models';
+import { CsvValue, toCsvBlob } from '../../../shared/utils';
+import { UsersQuery, toUserListQuery } from '../store/state/users.state';
+import { UserTableColumn } from '../utils/users-query-params';
+import { UsersService } from './users.service';
+
+export type UsersExportFormat = 'csv' | 'xlsx';
+
+/**
+ * `page`: the users on screen; `all`: every page matching the query
+ */
+export type UsersExportScope = 'page' | 'all';
+
+export interface UsersExportOptions {
+  format: UsersExportFormat;
+  scope: UsersExportScope;
+  columns: readonly UserTableColumn[];
+  query: UsersQuery;
+  /** Users of the current page, exported as-is for the `page` scope */
+  users: readonly User[];
+}
+
+export interface UsersExportResult {
+  /** Users written to the file */
+  count: number;
+  /** Whether MAX_EXPORT_ROWS cut the `all` scope short */
+  truncated: boolean;
+}
+
+/**
+ * Users fetched for the `all` scope
+ */
+interface FetchedUsers {
+  users: User[];
+  truncated: boolean;
+}
+
+/**
+ * Most users exported for the `all` scope; only the first ones are written
+ * when more match the query
+ */
+export const MAX_EXPORT_ROWS = 10_000;
+
+/**
+ * Page size used to fetch every page for the `all` scope
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+const COLUMN_WIDTHS: Record<UserTableColumn, number> = {
+  name: 30,
+  email: 36,
+  role: 16,
+  createdAt: 14,
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UsersExportService {
+  private usersService = inject(UsersService);
+  private languageService = inject(LanguageService);
+  private translate = inject(TranslateService);
+
+  /**
+   * Build the export and save it through the browser
+   */
+  async export(options: UsersExportOptions): Promise<UsersExportResult> {
+    const { users, truncated } =
+      options.scope === 'all'
+        ? await firstValueFrom(this.fetchAll(options.query))
+        : { users: options.users, truncated: false };
+    const fileName = `users-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+
+    const blob =
+      options.format === 'csv'
+        ? toCsvBlob(this.toRows(users, options.columns))
+        : await this.toXlsxBlob(users, options.columns);
+
+    saveBlob(blob, fileName);
+    return { count: users.length, truncated };
+  }
+
+  /**
+   * The users matching the query, fetched page by page up to MAX_EXPORT_ROWS
+   */
+  private fetchAll(query: UsersQuery): Observable<FetchedUsers> {
+    const params = { ...toUserListQuery(query), page: 1, pageSize: EXPORT_PAGE_SIZE };
+    const maxPages = Math.ceil(MAX_EXPORT_ROWS / EXPORT_PAGE_SIZE);
+
+    return this.usersService.getUsers(params).pipe(
+      expand(({ pagination }) =>
+        pagination.page < Math.min(pagination.totalPages, maxPages)
+          ? this.usersService.getUsers({ ...params, page: pagination.page + 1 })
+          : EMPTY
+      ),
+      reduce(
+        (result: FetchedUsers, { data, pagination }) => ({
+          users: [...result.users, ...data].slice(0, MAX_EXPORT_ROWS),
+          truncated: pagination.total > MAX_EXPORT_ROWS,
+        }),
+        { users: [], truncated: false }
+      )
+    );
+  }
+
+  private toRows(users: readonly User[], columns: readonly UserTableColumn[]): CsvValue[][] {
+    return [
+      columns.map((column) => this.translate.instant(`users.columns.${column}`)),
+      ...users.map((user) => columns.map((column) => this.cellValue(user, column))),
+    ];
+  }
+
+  private cellValue(user: User, column: UserTableColumn): string | Date | null {
+    switch (column) {
+      case 'role':
+        return user.role ? this.translate.instant(`users.roles.${user.role}`) : null;
+      case 'createdAt':
+        // Dates arrive as ISO strings from the API
+        return user.createdAt ? new Date(user.createdAt) : null;
+      default:
+        return user[column];
+    }
+  }
+
+  private async toXlsxBlob(
+    users: readonly User[],
+    columns: readonly UserTableColumn[]
+  ): Promise<Blob> {
+    // Loaded on demand to keep the writer out of the users bundle
+    const { default: writeXlsxFile } = await import('write-excel-file/browser');
+    const [header, ...rows] = this.toRows(users, columns);
+
+    const sheetData = [
+      header.map((value) => ({ value: String(value), fontWeight: 'bold' as const })),
+      ...rows.map((row) =>
+        row.map((value) =>
+          value instanceof Date
+            ? { value, type: Date, format: 'yyyy-mm-dd' }
+            : { value: value === null || value === undefined ? undefined : String(value) }
+        )
+      ),
+    ];
+
+    return writeXlsxFile(sheetData, {
+      sheet: this.translate.instant('users.title'),
+      rightToLeft: this.languageService.isRTL(),
+      columns: columns.map((column) => ({ width: COLUMN_WIDTHS[column] })),
+      stickyRowsCount: 1,
+    }).toBlob();
+  }
+}
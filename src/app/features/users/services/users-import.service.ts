@@ -0,0 +1,251 @@
+/**
+ * Users Import Service
+ *
+ * Bulk user creation from CSV: read the file, map its columns to user
+ * fields, validate every row, create the valid rows through the users API
+ * and report what failed.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { TranslateService } from '@ngx-translate/core';
+import { Observable, catchError, from, map, mergeMap, of } from 'rxjs';
+import { saveBlob } from '../../../core/api';
+import { ErrorService, ValidationError } from '../../../core/error';
+import { CreateUserDto, USER_ROLES, User } from '../../../shared/models';
+import { parseCsv, toCsvBlob } from '../../../shared/utils';
+import { UsersService } from './users.service';
+
+export const USER_IMPORT_FIELDS = ['name', 'email', 'role'] as const;
+
+export type UserImportField = (typeof USER_IMPORT_FIELDS)[number];
+
+/**
+ * Column index of each field in the file, null when not mapped
+ */
+export type UserImportMapping = Record<UserImportField, number | null>;
+
+export interface UserImportFile {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface UserImportRow {
+  /** Line of the row in the file, the header being line 1 */
+  line: number;
+  values: string[];
+  dto: CreateUserDto;
+  errors: ValidationError[];
+}
+
+export interface UserImportResult {
+  row: UserImportRow;
+  status: 'created' | 'failed';
+  user?: User;
+  /** Translated reason, for failed rows */
+  error?: string;
+}
+
+export const USER_IMPORT_MAX_FILE_SIZE = 1024 * 1024;
+
+export const USER_IMPORT_MAX_ROWS = 1000;
+
+/**
+ * Create requests in flight at once
+ */
+const IMPORT_BATCH_SIZE = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Extra header names recognized when guessing the mapping
+ */
+const HEADER_ALIASES: Record<UserImportField, string[]> = {
+  name: ['full name', 'fullname', 'display name'],
+  email: ['e-mail', 'mail', 'email address'],
+  role: ['roles', 'user role'],
+};
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UsersImportService {
+  private usersService = inject(UsersService);
+  private errorService = inject(ErrorService);
+  private translate = inject(TranslateService);
+
+  /**
+   * Read a CSV file; the first line holds the column headers
+   *
+   * @throws Error with a translated message when the file cannot be imported
+   */
+  async readFile(file: File): Promise<UserImportFile> {
+    if (file.size > USER_IMPORT_MAX_FILE_SIZE) {
+      throw new Error(this.translate.instant('users.import.fileTooLarge'));
+    }
+
+    const [headers, ...rows] = parseCsv(await file.text());
+
+    if (!headers || rows.length === 0) {
+      throw new Error(this.translate.instant('users.import.emptyFile'));
+    }
+    if (rows.length > USER_IMPORT_MAX_ROWS) {
+      throw new Error(
+        this.translate.instant('users.import.tooManyRows', { max: USER_IMPORT_MAX_ROWS })
+      );
+    }
+
+    return { fileName: file.name, headers: headers.map((h) => h.trim()), rows };
+  }
+
+  /**
+   * Map columns whose header is the field name, its translated label or a
+   * known alias
+   */
+  guessMapping(headers: readonly string[]): UserImportMapping {
+    const normalized = headers.map(normalize);
+
+    return Object.fromEntries(
+      USER_IMPORT_FIELDS.map((field) => {
+        const names = [
+          field,
+          this.translate.instant(`users.columns.${field}`),
+          ...HEADER_ALIASES[field],
+        ].map(normalize);
+        const index = normalized.findIndex((header) => names.includes(header));
+        return [field, index === -1 ? null : index];
+      })
+    ) as UserImportMapping;
+  }
+
+  /**
+   * Build and validate the user of every row
+   */
+  validate(file: UserImportFile, mapping: UserImportMapping): UserImportRow[] {
+    const seenEmails = new Set<string>();
+
+    return file.rows.map((values, index) => {
+      const cell = (field: UserImportField) => {
+        const column = mapping[field];
+        return column === null ? '' : (values[column] ?? '').trim();
+      };
+
+      const role = this.parseRole(cell('role'));
+      const dto: CreateUserDto = {
+        name: cell('name'),
+        email: cell('email'),
+        ...(role ? { role } : {}),
+      };
+      const errors: ValidationError[] = [];
+
+      if (!dto.name) {
+        errors.push(this.error('name', 'required', 'validation.required'));
+      }
+      if (!dto.email) {
+        errors.push(this.error('email', 'required', 'validation.required'));
+      } else if (!EMAIL_PATTERN.test(dto.email)) {
+        errors.push(this.error('email', 'email', 'validation.email'));
+      } else if (seenEmails.has(dto.email.toLowerCase())) {
+        errors.push(this.error('email', 'duplicate', 'users.import.duplicateEmail'));
+      }
+      if (cell('role') && !role) {
+        errors.push(this.error('role', 'invalidRole', 'validation.invalidRole'));
+      }
+
+      seenEmails.add(dto.email.toLowerCase());
+
+      return { line: index + 2, values, dto, errors };
+    });
+  }
+
+  /**
+   * Create the rows through the users API, a few at a time
+   *
+   * Emits one result per row as its request settles; failures do not stop
+   * the import. Creates are never queued in the offline outbox, so a row
+   * sent without network is reported as failed and is only sent again when
+   * the error report is re-imported.
+   */
+  import(rows: readonly UserImportRow[]): Observable<UserImportResult> {
+    return from(rows).pipe(
+      mergeMap(
+        (row) =>
+          this.usersService.createUser(row.dto).pipe(
+            map((user): UserImportResult => ({ row, status: 'created', user })),
+            catchError((error) =>
+              of<UserImportResult>({ row, status: 'failed', error: this.describe(error) })
+            )
+          ),
+        IMPORT_BATCH_SIZE
+      )
+    );
+  }
+
+  /**
+   * Save a CSV of the rows that were not imported, with the reason for each
+   */
+  downloadErrorReport(
+    file: UserImportFile,
+    failures: readonly { row: UserImportRow; error: string }[]
+  ): void {
+    const header = [
+      this.translate.instant('users.import.line'),
+      ...file.headers,
+      this.translate.instant('users.import.errors'),
+    ];
+    const rows = [...failures]
+      .sort((a, b) => a.row.line - b.row.line)
+      .map(({ row, error }) => [row.line, ...row.values, error]);
+
+    const baseName = file.fileName.replace(/\.csv$/i, '');
+    saveBlob(toCsvBlob([header, ...rows]), `${baseName}-errors.csv`);
+  }
+
+  /**
+   * Field errors as one line of text, e.g. "Email: This field is required"
+   */
+  describeErrors(errors: readonly ValidationError[]): string {
+    return errors
+      .map((error) => `${this.translate.instant(`users.columns.${error.field}`)}: ${error.message}`)
+      .join('; ');
+  }
+
+  /**
+   * Role key from a key or translated role name
+   */
+  private parseRole(value: string): string | null {
+    const normalized = normalize(value);
+    if (!normalized) {
+      return null;
+    }
+
+    return (
+      USER_ROLES.find(
+        (role) =>
+          role === normalized ||
+          normalize(this.translate.instant(`users.roles.${role}`)) === normalized
+      ) ?? null
+    );
+  }
+
+  private error(field: UserImportField, code: string, messageKey: string): ValidationError {
+    return { field, code, message: this.translate.instant(messageKey) };
+  }
+
+  /**
+   * Reason a create request failed: the server's field errors when it sent
+   * any, otherwise the error's user message
+   */
+  private describe(error: unknown): string {
+    const appError = this.errorService.toAppError(error);
+    const validationErrors = this.errorService.getValidationErrors(appError);
+
+    return validationErrors.length > 0
+      ? this.describeErrors(validationErrors)
+      : appError.userMessage;
+  }
+}
@@ -0,0 +1,100 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { environment } from '../../../../environments/environment';
+import { OfflineQueueService } from '../../../core/api';
+import { AppError, ErrorLoggingService } from '../../../core/error';
+import { User } from '../../../shared/models';
+import { UsersService } from './users.service';
+
+describe('UsersService', () => {
+  const usersUrl = `${environment.apiUrl}/users`;
+  const user: User = { id: '1', name: 'John Doe', email: 'john@example.com', role: 'admin' };
+  let service: UsersService;
+  let controller: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        importProvidersFrom(TranslateModule.forRoot()),
+      ],
+    });
+
+    spyOn(TestBed.inject(ErrorLoggingService), 'log');
+    service = TestBed.inject(UsersService);
+    controller = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => controller.verify());
+
+  it('should get a page of users with the query as params', () => {
+    let total: number | undefined;
+    service
+      .getUsers({ search: 'doe', role: 'admin', page: 2, pageSize: 10 })
+      .subscribe((response) => (total = response.pagination.total));
+
+    const req = controller.expectOne((r) => r.url === usersUrl);
+    expect(req.request.params.get('search')).toBe('doe');
+    expect(req.request.params.get('role')).toBe('admin');
+    expect(req.request.params.get('page')).toBe('2');
+    req.flush({ data: [user], pagination: { page: 2, pageSize: 10, total: 11, totalPages: 2 } });
+
+    expect(total).toBe(11);
+  });
+
+  it('should reject a page that does not match the contract', () => {
+    let error: AppError | undefined;
+    service.getUsers().subscribe({ error: (e) => (error = e) });
+
+    controller.expectOne((r) => r.url === usersUrl).flush([user]);
+
+    expect(error?.code).toBe('CONTRACT_VIOLATION');
+  });
+
+  it('should create, update and delete users', () => {
+    service.createUser({ name: 'Jane', email: 'jane@example.com' }).subscribe();
+    const create = controller.expectOne(usersUrl);
+    expect(create.request.method).toBe('POST');
+    create.flush({ ...user, id: '2', name: 'Jane' });
+
+    service.updateUser('1', { name: 'John' }).subscribe();
+    const update = controller.expectOne(`${usersUrl}/1`);
+    expect(update.request.method).toBe('PUT');
+    expect(update.request.body).toEqual({ name: 'John' });
+    update.flush({ ...user, name: 'John' });
+
+    service.deleteUser('1').subscribe();
+    const remove = controller.expectOne(`${usersUrl}/1`);
+    expect(remove.request.method).toBe('DELETE');
+    remove.flush(null);
+  });
+
+  it('should queue updates and deletes sent without network', async () => {
+    const enqueue = spyOn(TestBed.inject(OfflineQueueService), 'enqueue').and.callFake(
+      async (request) => ({ ...request, id: 1, userId: null, createdAt: 0 })
+    );
+    const result = new Promise<AppError>((resolve) =>
+      service.deleteUser('1').subscribe({ error: resolve })
+    );
+
+    controller.expectOne(`${usersUrl}/1`).error(new ProgressEvent('error'), { status: 0 });
+
+    expect((await result).code).toBe('REQUEST_QUEUED');
+    expect(enqueue).toHaveBeenCalledWith(jasmine.objectContaining({ method: 'DELETE' }));
+  });
+
+  it('should not queue creates', () => {
+    const enqueue = spyOn(TestBed.inject(OfflineQueueService), 'enqueue');
+    service.createUser({ name: 'Jane', email: 'jane@example.com' }).subscribe({
+      error: () => undefined,
+    });
+
+    controller.expectOne(usersUrl).error(new ProgressEvent('error'), { status: 0 });
+
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Users Service
+ *
+ * API access for the users feature, built on BaseApiService and the
+ * typed API_ENDPOINTS.users contracts. Errors reach subscribers as AppErrors
+ * from the error interceptor.
+ */
+
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import { API_ENDPOINTS, BaseApiService, PaginatedResponse } from '../../../core/api';
+import { CreateUserDto, UpdateUserDto, User, UserListQuery } from '../../../shared/models';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UsersService {
+  private apiService = inject(BaseApiService);
+
+  /**
+   * Get a page of users matching the query
+   */
+  getUsers(query: UserListQuery = {}): Observable<PaginatedResponse<User>> {
+    return this.apiService.call(API_ENDPOINTS.users.list, { query });
+  }
+
+  /**
+   * Get a single user
+   */
+  getUser(id: string): Observable<User> {
+    return this.apiService.call(API_ENDPOINTS.users.byId, { id });
+  }
+
+  /**
+   * Create a user
+   *
+   * Not queued in the offline outbox: the user import re-sends the rows
+   * that failed, which would create queued users twice.
+   */
+  createUser(dto: CreateUserDto): Observable<User> {
+    return this.apiService.call(API_ENDPOINTS.users.create, { body: dto });
+  }
+
+  /**
+   * Update a user
+   *
+   * Queued in the offline outbox when sent without network: the call then
+   * fails with a 'REQUEST_QUEUED' AppError.
+   */
+  updateUser(id: string, dto: UpdateUserDto): Observable<User> {
+    return this.apiService.call(API_ENDPOINTS.users.update, { id, body: dto }, { offline: true });
+  }
+
+  /**
+   * Delete a user
+   *
+   * Queued in the offline outbox like updateUser().
+   */
+  deleteUser(id: string): Observable<void> {
+    return this.apiService.call(API_ENDPOINTS.users.delete, { id }, { offline: true });
+  }
+
+  /**
+   * Get the profile of the signed-in user
+   */
+  getProfile(): Observable<User> {
+    return this.apiService.call(API_ENDPOINTS.users.profile);
+  }
+}
@@ -3,28 +3,63 @@
  */
 
 import { createActionGroup, emptyProps, props } from '@ngrx/store';
-import { User } from '../state/users.state';
+import { AppError } from '../../../../core/error';
+import { CreateUserDto } from '../../../../shared/models';
+import { User, UsersFilters, UsersQuery, createOperationId } from '../state/users.state';
 
 export const UsersActions = createActionGroup({
   source: 'Users',
   events: {
+    // Loads the page described by the query in the store
     'Load Users': emptyProps(),
-    'Load Users Success': props<{ users: User[] }>(),
-    'Load Users Failure': props<{ error: string }>(),
+    'Load Users Success': props<{ users: User[]; total: number }>(),
+    'Load Users Failure': props<{ error: AppError }>(),
+
+    'Load User': props<{ userId: string }>(),
+    'Load User Success': props<{ user: User }>(),
+    'Load User Failure': props<{ userId: string; error: AppError }>(),
+
+    'Load Profile': emptyProps(),
+    'Load Profile Success': props<{ user: User }>(),
+    'Load Profile Failure': props<{ error: AppError }>(),
+
+    // Query changes reload the list; Set Search/Sort/Filters/Page Size go back to page 1
+    'Set Query': props<{ query: UsersQuery }>(),
+    'Set Search': props<{ search: string }>(),
+    'Set Sort': props<{ sort: UsersQuery['sort']; order?: UsersQuery['order'] }>(),
+    'Set Filters': props<{ filters: Partial<UsersFilters> }>(),
+    'Set Page': props<{ page: number }>(),
+    'Set Page Size': props<{ pageSize: number }>(),
+    'Reset Query': emptyProps(),
 
     'Select User': props<{ userId: string }>(),
     'Clear Selection': emptyProps(),
 
-    'Add User': props<{ user: User }>(),
+    'Add User': props<{ user: CreateUserDto }>(),
     'Add User Success': props<{ user: User }>(),
-    'Add User Failure': props<{ error: string }>(),
+    'Add User Failure': props<{ error: AppError }>(),
+
+    // Update and delete are applied optimistically and tracked by operationId.
+    // Queued: sent while offline and saved in the outbox, kept as applied
+    // fromForm: sent by a form that shows validation errors on its controls
+    'Update User': (payload: { user: User; operationId?: string; fromForm?: boolean }) => ({
+      operationId: createOperationId(),
+      ...payload,
+    }),
+    'Update User Success': props<{ user: User; operationId: string }>(),
+    'Update User Failure': props<{ error: AppError; userId: string; operationId: string }>(),
+    'Update User Queued': props<{ user: User; operationId: string }>(),
 
-    'Update User': props<{ user: User }>(),
-    'Update User Success': props<{ user: User }>(),
-    'Update User Failure': props<{ error: string }>(),
+    // bulk: part of Delete Users, which reports the results in one toast
+    'Delete User': (payload: { userId: string; operationId?: string; bulk?: boolean }) => ({
+      operationId: createOperationId(),
+      ...payload,
+    }),
+    'Delete User Success': props<{ userId: string; operationId: string }>(),
+    'Delete User Failure': props<{ error: AppError; userId: string; operationId: string }>(),
+    'Delete User Queued': props<{ userId: string; operationId: string }>(),
 
-    'Delete User': props<{ userId: string }>(),
-    'Delete User Success': props<{ userId: string }>(),
-    'Delete User Failure': props<{ error: string }>(),
+    // Dispatches a bulk Delete User for each user
+    'Delete Users': props<{ userIds: string[] }>(),
   },
 });
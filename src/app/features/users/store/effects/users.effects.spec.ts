@@ -0,0 +1,255 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideMockActions } from '@ngrx/effects/testing';
+import { Action } from '@ngrx/store';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+import { TranslateModule } from '@ngx-translate/core';
+import { Observable, ReplaySubject, of, throwError } from 'rxjs';
+import { AppError } from '../../../../core/error';
+import { ToastService } from '../../../../core/notifications';
+import { User } from '../../../../shared/models';
+import { UsersService } from '../../services/users.service';
+import { UsersActions } from '../actions/users.actions';
+import {
+  selectAllUsers,
+  selectPendingOperations,
+  selectUsersQuery,
+  selectUsersTotal,
+} from '../selectors/users.selectors';
+import { initialUsersQuery } from '../state/users.state';
+import { UsersEffects } from './users.effects';
+
+describe('UsersEffects', () => {
+  const user: User = { id: '2', name: 'Jane Smith', email: 'jane@example.com', role: 'user' };
+
+  function appError(code: string): AppError {
+    return {
+      id: 'err_1',
+      code,
+      message: code,
+      userMessage: code,
+      category: 'server',
+      severity: 'error',
+      timestamp: new Date(),
+    };
+  }
+
+  let actions$: ReplaySubject<Action>;
+  let effects: UsersEffects;
+  let store: MockStore;
+  let usersService: jasmine.SpyObj<UsersService>;
+  let toast: jasmine.SpyObj<ToastService>;
+
+  beforeEach(() => {
+    actions$ = new ReplaySubject<Action>(1);
+    usersService = jasmine.createSpyObj<UsersService>('UsersService', [
+      'getUsers',
+      'updateUser',
+      'deleteUser',
+    ]);
+    toast = jasmine.createSpyObj<ToastService>('ToastService', [
+      'success',
+      'error',
+      'showError',
+    ]);
+
+    TestBed.configureTestingModule({
+      providers: [
+        UsersEffects,
+        provideMockActions(() => actions$),
+        provideMockStore(),
+        importProvidersFrom(TranslateModule.forRoot()),
+        { provide: UsersService, useValue: usersService },
+        { provide: ToastService, useValue: toast },
+      ],
+    });
+
+    store = TestBed.inject(MockStore);
+    store.overrideSelector(selectUsersQuery, { ...initialUsersQuery, search: ' doe ', page: 2 });
+    store.overrideSelector(selectPendingOperations, {});
+    effects = TestBed.inject(UsersEffects);
+  });
+
+  function collect(effect$: Observable<Action>): Action[] {
+    const emitted: Action[] = [];
+    effect$.subscribe((action) => emitted.push(action));
+    return emitted;
+  }
+
+  describe('loadUsers$', () => {
+    it('should load the page described by the query', () => {
+      usersService.getUsers.and.returnValue(
+        of({ data: [user], pagination: { page: 2, pageSize: 10, total: 11, totalPages: 2 } })
+      );
+      actions$.next(UsersActions.loadUsers());
+
+      expect(collect(effects.loadUsers$)).toEqual([
+        UsersActions.loadUsersSuccess({ users: [user], total: 11 }),
+      ]);
+      expect(usersService.getUsers).toHaveBeenCalledWith(
+        jasmine.objectContaining({ search: 'doe', page: 2 })
+      );
+    });
+
+    it('should report a failure with an AppError', () => {
+      const error = appError('HTTP_500');
+      usersService.getUsers.and.returnValue(throwError(() => error));
+      actions$.next(UsersActions.loadUsers());
+
+      expect(collect(effects.loadUsers$)).toEqual([UsersActions.loadUsersFailure({ error })]);
+    });
+  });
+
+  describe('updateUser$', () => {
+    const action = UsersActions.updateUser({ user, operationId: 'op_1' });
+
+    it('should confirm the change with an undo toast', () => {
+      store.overrideSelector(selectPendingOperations, {
+        op_1: { id: 'op_1', type: 'update', userId: '2', previous: user, index: 1 },
+      });
+      usersService.updateUser.and.returnValue(of(user));
+      actions$.next(action);
+
+      expect(collect(effects.updateUser$)).toEqual([
+        UsersActions.updateUserSuccess({ user, operationId: 'op_1' }),
+      ]);
+      expect(toast.success.calls.mostRecent().args[1]?.action).toBeDefined();
+    });
+
+    it('should report a failure with a retry toast', () => {
+      const error = appError('HTTP_500');
+      usersService.updateUser.and.returnValue(throwError(() => error));
+      actions$.next(action);
+
+      expect(collect(effects.updateUser$)).toEqual([
+        UsersActions.updateUserFailure({ error, userId: '2', operationId: 'op_1' }),
+      ]);
+      expect(toast.showError).toHaveBeenCalledWith(
+        error,
+        jasmine.objectContaining({ action: jasmine.anything() })
+      );
+    });
+
+    it('should leave validation errors of a form change to the form', () => {
+      const error = { ...appError('HTTP_422'), category: 'validation' as const };
+      usersService.updateUser.and.returnValue(throwError(() => error));
+      actions$.next(UsersActions.updateUser({ user, operationId: 'op_1', fromForm: true }));
+
+      expect(collect(effects.updateUser$)).toEqual([
+        UsersActions.updateUserFailure({ error, userId: '2', operationId: 'op_1' }),
+      ]);
+      expect(toast.showError).not.toHaveBeenCalled();
+    });
+
+    it('should keep a change queued offline without reporting it', () => {
+      usersService.updateUser.and.returnValue(throwError(() => appError('REQUEST_QUEUED')));
+      actions$.next(action);
+
+      expect(collect(effects.updateUser$)).toEqual([
+        UsersActions.updateUserQueued({ user, operationId: 'op_1' }),
+      ]);
+      expect(toast.showError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteUser$', () => {
+    const action = UsersActions.deleteUser({ userId: '2', operationId: 'op_1' });
+
+    it('should confirm the delete without an undo', () => {
+      usersService.deleteUser.and.returnValue(of(undefined));
+      actions$.next(action);
+
+      expect(collect(effects.deleteUser$)).toEqual([
+        UsersActions.deleteUserSuccess({ userId: '2', operationId: 'op_1' }),
+      ]);
+      expect(toast.success.calls.mostRecent().args[1]?.action).toBeUndefined();
+    });
+
+    it('should report a validation error without a retry', () => {
+      const error = { ...appError('HTTP_400'), category: 'validation' as const };
+      usersService.deleteUser.and.returnValue(throwError(() => error));
+      actions$.next(action);
+
+      expect(collect(effects.deleteUser$)).toEqual([
+        UsersActions.deleteUserFailure({ error, userId: '2', operationId: 'op_1' }),
+      ]);
+      expect(toast.showError).toHaveBeenCalledWith(
+        error,
+        jasmine.objectContaining({ action: undefined })
+      );
+    });
+
+    it('should keep a delete queued offline without reporting it', () => {
+      usersService.deleteUser.and.returnValue(throwError(() => appError('REQUEST_QUEUED')));
+      actions$.next(action);
+
+      expect(collect(effects.deleteUser$)).toEqual([
+        UsersActions.deleteUserQueued({ userId: '2', operationId: 'op_1' }),
+      ]);
+      expect(toast.showError).not.toHaveBeenCalled();
+    });
+
+    it('should leave the results of a bulk delete to Delete Users', () => {
+      usersService.deleteUser.and.returnValue(throwError(() => appError('HTTP_500')));
+      actions$.next(UsersActions.deleteUser({ userId: '2', operationId: 'op_1', bulk: true }));
+
+      collect(effects.deleteUser$);
+
+      expect(toast.showError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteUsers$', () => {
+    function deleteUsers(): { emitted: Action[]; operationIds: string[] } {
+      actions$.next(UsersActions.deleteUsers({ userIds: ['2', '3'] }));
+      const emitted = collect(effects.deleteUsers$);
+      const operationIds = emitted.map(
+        (action) => (action as ReturnType<typeof UsersActions.deleteUser>).operationId
+      );
+      return { emitted, operationIds };
+    }
+
+    beforeEach(() => {
+      store.overrideSelector(selectAllUsers, [user]);
+      store.overrideSelector(selectUsersTotal, 11);
+    });
+
+    it('should delete each user as part of a bulk delete', () => {
+      const { emitted } = deleteUsers();
+
+      expect(emitted).toEqual([
+        jasmine.objectContaining({ type: UsersActions.deleteUser.type, userId: '2', bulk: true }),
+        jasmine.objectContaining({ type: UsersActions.deleteUser.type, userId: '3', bulk: true }),
+      ]);
+    });
+
+    it('should report all results in one toast', () => {
+      const { operationIds } = deleteUsers();
+      actions$.next(UsersActions.deleteUserSuccess({ userId: '2', operationId: operationIds[0] }));
+      actions$.next(
+        UsersActions.deleteUserFailure({
+          error: appError('HTTP_500'),
+          userId: '3',
+          operationId: operationIds[1],
+        })
+      );
+
+      expect(toast.error).toHaveBeenCalledOnceWith(
+        'users.table.deleteFailed',
+        jasmine.objectContaining({ action: jasmine.anything() })
+      );
+      expect(toast.success).not.toHaveBeenCalled();
+    });
+
+    it('should reload a page left empty', () => {
+      store.overrideSelector(selectAllUsers, []);
+      store.refreshState();
+      const { emitted, operationIds } = deleteUsers();
+      actions$.next(UsersActions.deleteUserSuccess({ userId: '2', operationId: operationIds[0] }));
+      actions$.next(UsersActions.deleteUserQueued({ userId: '3', operationId: operationIds[1] }));
+
+      expect(toast.success).toHaveBeenCalledOnceWith('users.table.deleted');
+      expect(emitted[emitted.length - 1]).toEqual(UsersActions.loadUsers());
+    });
+  });
+});
@@ -4,30 +4,117 @@
 
 import { Injectable, inject } from '@angular/core';
 import { Actions, createEffect, ofType } from '@ngrx/effects';
-import { of } from 'rxjs';
-import { map, catchError, switchMap } from 'rxjs/operators';
+import { Store } from '@ngrx/store';
+import { TranslateService } from '@ngx-translate/core';
+import { EMPTY, from, merge, of } from 'rxjs';
+import {
+  map,
+  catchError,
+  filter,
+  mergeMap,
+  switchMap,
+  take,
+  toArray,
+  withLatestFrom,
+} from 'rxjs/operators';
+import { AppError, ErrorService } from '../../../../core/error';
+import { ToastService } from '../../../../core/notifications';
+import { CreateUserDto, UpdateUserDto } from '../../../../shared/models';
+import { UsersService } from '../../services/users.service';
 import { UsersActions } from '../actions/users.actions';
-// import { UsersService } from '../../services/users.service';
+import {
+  selectAllUsers,
+  selectPendingOperations,
+  selectUsersQuery,
+  selectUsersTotal,
+} from '../selectors/users.selectors';
+import { toUserListQuery } from '../state/users.state';
+
+/**
+ * Writable fields of a user, as sent to the create and update endpoints
+ */
+function toUserDto({ name, email, role }: CreateUserDto): CreateUserDto & UpdateUserDto {
+  return { name, email, ...(role !== undefined ? { role } : {}) };
+}
+
+/**
+ * Action that settles a Delete User
+ */
+type DeleteUserResult = ReturnType<
+  | typeof UsersActions.deleteUserSuccess
+  | typeof UsersActions.deleteUserQueued
+  | typeof UsersActions.deleteUserFailure
+>;
 
 @Injectable()
 export class UsersEffects {
   // Inject dependencies
   private actions$ = inject(Actions);
-  // private usersService = inject(UsersService);
+  private store = inject(Store);
+  private errorService = inject(ErrorService);
+  private toastService = inject(ToastService);
+  private translate = inject(TranslateService);
+  private usersService = inject(UsersService);
 
-  // Load users from API
+  // Load the page described by the query in the store
   loadUsers$ = createEffect(() =>
     this.actions$.pipe(
       ofType(UsersActions.loadUsers),
-      switchMap(() =>
-        // Replace with actual API call: this.usersService.getUsers()
-        of([
-          { id: '1', name: 'John Doe', email: 'john@example.com' },
-          { id: '2', name: 'Jane Smith', email: 'jane@example.com' },
-        ]).pipe(
-          map((users) => UsersActions.loadUsersSuccess({ users })),
+      withLatestFrom(this.store.select(selectUsersQuery)),
+      switchMap(([{ type }, query]) =>
+        this.usersService.getUsers(toUserListQuery(query)).pipe(
+          map(({ data, pagination }) =>
+            UsersActions.loadUsersSuccess({ users: data, total: pagination.total })
+          ),
+          catchError((error) =>
+            of(UsersActions.loadUsersFailure({ error: this.toAppError(error, type) }))
+          )
+        )
+      )
+    )
+  );
+
+  // Reload the list when the query changes
+  queryChanged$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(
+        UsersActions.setQuery,
+        UsersActions.setSearch,
+        UsersActions.setSort,
+        UsersActions.setFilters,
+        UsersActions.setPage,
+        UsersActions.setPageSize,
+        UsersActions.resetQuery
+      ),
+      map(() => UsersActions.loadUsers())
+    )
+  );
+
+  // Load a single user
+  loadUser$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(UsersActions.loadUser),
+      // mergeMap: loads of different users are independent
+      mergeMap(({ userId, type }) =>
+        this.usersService.getUser(userId).pipe(
+          map((user) => UsersActions.loadUserSuccess({ user })),
+          catchError((error) =>
+            of(UsersActions.loadUserFailure({ userId, error: this.toAppError(error, type) }))
+          )
+        )
+      )
+    )
+  );
+
+  // Load the signed-in user's profile
+  loadProfile$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(UsersActions.loadProfile),
+      switchMap(({ type }) =>
+        this.usersService.getProfile().pipe(
+          map((user) => UsersActions.loadProfileSuccess({ user })),
           catchError((error) =>
-            of(UsersActions.loadUsersFailure({ error: error.message }))
+            of(UsersActions.loadProfileFailure({ error: this.toAppError(error, type) }))
           )
         )
       )
@@ -38,47 +125,200 @@ export class UsersEffects {
   addUser$ = createEffect(() =>
     this.actions$.pipe(
       ofType(UsersActions.addUser),
-      switchMap(({ user }) =>
-        // Replace with actual API call: this.usersService.addUser(user)
-        of(user).pipe(
+      mergeMap(({ user, type }) =>
+        this.usersService.createUser(toUserDto(user)).pipe(
           map((newUser) => UsersActions.addUserSuccess({ user: newUser })),
           catchError((error) =>
-            of(UsersActions.addUserFailure({ error: error.message }))
+            of(UsersActions.addUserFailure({ error: this.toAppError(error, type) }))
           )
         )
       )
     )
   );
 
-  // Update user via API
+  // Update user via API (applied optimistically by the reducer)
   updateUser$ = createEffect(() =>
     this.actions$.pipe(
       ofType(UsersActions.updateUser),
-      switchMap(({ user }) =>
-        // Replace with actual API call: this.usersService.updateUser(user)
-        of(user).pipe(
-          map((updatedUser) => UsersActions.updateUserSuccess({ user: updatedUser })),
-          catchError((error) =>
-            of(UsersActions.updateUserFailure({ error: error.message }))
-          )
+      withLatestFrom(this.store.select(selectPendingOperations)),
+      // mergeMap: every pending operation must settle, none may be cancelled
+      mergeMap(([{ user, operationId, fromForm, type }, pending]) =>
+        this.usersService.updateUser(user.id, toUserDto(user)).pipe(
+          map((updatedUser) => {
+            const previous = pending[operationId]?.previous;
+            this.notifySuccess(
+              'users.updated',
+              previous && (() => this.store.dispatch(UsersActions.updateUser({ user: previous })))
+            );
+            return UsersActions.updateUserSuccess({ user: updatedUser, operationId });
+          }),
+          catchError((error) => {
+            const appError = this.toAppError(error, type);
+            if (this.isQueued(appError)) {
+              return of(UsersActions.updateUserQueued({ user, operationId }));
+            }
+
+            this.notifyFailure(
+              appError,
+              'users.updateFailed',
+              user.name,
+              () => this.store.dispatch(UsersActions.updateUser({ user })),
+              fromForm
+            );
+            return of(
+              UsersActions.updateUserFailure({ error: appError, userId: user.id, operationId })
+            );
+          })
         )
       )
     )
   );
 
-  // Delete user via API
+  // Delete user via API (applied optimistically by the reducer)
   deleteUser$ = createEffect(() =>
     this.actions$.pipe(
       ofType(UsersActions.deleteUser),
-      switchMap(({ userId }) =>
-        // Replace with actual API call: this.usersService.deleteUser(userId)
-        of(userId).pipe(
-          map(() => UsersActions.deleteUserSuccess({ userId })),
-          catchError((error) =>
-            of(UsersActions.deleteUserFailure({ error: error.message }))
-          )
-        )
-      )
+      withLatestFrom(this.store.select(selectPendingOperations)),
+      mergeMap(([{ userId, operationId, bulk, type }, pending]) => {
+        const previous = pending[operationId]?.previous;
+
+        return this.usersService.deleteUser(userId).pipe(
+          map(() => {
+            // No undo: the API has no restore, and re-creating the user would
+            // give it a new ID
+            if (!bulk) {
+              this.notifySuccess('users.deleted');
+            }
+            return UsersActions.deleteUserSuccess({ userId, operationId });
+          }),
+          catchError((error) => {
+            const appError = this.toAppError(error, type);
+            if (this.isQueued(appError)) {
+              return of(UsersActions.deleteUserQueued({ userId, operationId }));
+            }
+
+            if (!bulk) {
+              this.notifyFailure(appError, 'users.deleteFailed', previous?.name ?? userId, () =>
+                this.store.dispatch(UsersActions.deleteUser({ userId }))
+              );
+            }
+            return of(UsersActions.deleteUserFailure({ error: appError, userId, operationId }));
+          })
+        );
+      })
     )
   );
+
+  // Delete several users and report them in one toast. A page left empty
+  // is reloaded, so the rows of the next pages move up.
+  deleteUsers$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(UsersActions.deleteUsers),
+      mergeMap(({ userIds }) => {
+        const deletes = userIds.map((userId) => UsersActions.deleteUser({ userId, bulk: true }));
+        const operationIds = new Set(deletes.map(({ operationId }) => operationId));
+
+        const settled$ = this.actions$.pipe(
+          ofType(
+            UsersActions.deleteUserSuccess,
+            UsersActions.deleteUserQueued,
+            UsersActions.deleteUserFailure
+          ),
+          filter(({ operationId }) => operationIds.has(operationId)),
+          take(deletes.length),
+          toArray(),
+          withLatestFrom(this.store.select(selectAllUsers), this.store.select(selectUsersTotal)),
+          mergeMap(([results, users, total]) => {
+            this.notifyBulkDelete(results);
+            return users.length === 0 && total > 0 ? of(UsersActions.loadUsers()) : EMPTY;
+          })
+        );
+
+        // Listen before dispatching, so that no result is missed
+        return merge(settled$, from(deletes));
+      })
+    )
+  );
+
+  /**
+   * Map a failed request to the AppError carried by failure actions
+   */
+  private toAppError(error: unknown, actionType: string): AppError {
+    return this.errorService.toAppError(error, { actionType });
+  }
+
+  /**
+   * Whether the change was saved in the offline outbox, which already told
+   * the user it will be sent later. It is accepted, not failed: rolling it
+   * back or retrying it would send it twice.
+   */
+  private isQueued(error: AppError): boolean {
+    return error.code === 'REQUEST_QUEUED';
+  }
+
+  /**
+   * Confirm an optimistic change, offering to undo it
+   */
+  private notifySuccess(messageKey: string, undo?: () => void): void {
+    this.toastService.success(this.translate.instant(messageKey), {
+      action: undo && { label: this.translate.instant('common.undo'), callback: undo },
+    });
+  }
+
+  /**
+   * Report a rolled back optimistic change, offering to retry it
+   *
+   * Validation errors of a change sent by a form are left to that form.
+   * Others are shown without retry: the same values would fail again.
+   */
+  private notifyFailure(
+    error: AppError,
+    titleKey: string,
+    name: string,
+    retry: () => void,
+    fromForm = false
+  ): void {
+    const isValidation = error.category === 'validation';
+    if (isValidation && fromForm) {
+      return;
+    }
+
+    this.toastService.showError(error, {
+      title: this.translate.instant(titleKey, { name }),
+      action: isValidation
+        ? undefined
+        : { label: this.translate.instant('common.retry'), callback: retry },
+    });
+  }
+
+  /**
+   * Summarise a bulk delete: how many users were deleted, and how many
+   * could not be, with a retry for those that may succeed on a second try
+   */
+  private notifyBulkDelete(results: DeleteUserResult[]): void {
+    const failures = results.filter((result) => 'error' in result);
+    const deleted = results.length - failures.length;
+
+    if (failures.length === 0) {
+      this.toastService.success(
+        this.translate.instant('users.table.deleted', { count: deleted })
+      );
+      return;
+    }
+
+    const retryIds = failures
+      .filter(({ error }) => error.category !== 'validation')
+      .map(({ userId }) => userId);
+    this.toastService.error(
+      this.translate.instant('users.table.deleteFailed', { deleted, failed: failures.length }),
+      {
+        action: retryIds.length
+          ? {
+              label: this.translate.instant('common.retry'),
+              callback: () => this.store.dispatch(UsersActions.deleteUsers({ userIds: retryIds })),
+            }
+          : undefined,
+      }
+    );
+  }
 }
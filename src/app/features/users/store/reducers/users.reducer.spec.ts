@@ -0,0 +1,168 @@
+import { AppError } from '../../../../core/error';
+import { UsersActions } from '../actions/users.actions';
+import { User, UsersState, initialUsersState } from '../state/users.state';
+import { usersReducer } from './users.reducer';
+
+describe('usersReducer', () => {
+  const users: User[] = [
+    { id: '1', name: 'John Doe', email: 'john@example.com' },
+    { id: '2', name: 'Jane Smith', email: 'jane@example.com' },
+    { id: '3', name: 'Omar Haddad', email: 'omar@example.com' },
+  ];
+
+  const error: AppError = {
+    id: 'err_1',
+    code: 'HTTP_500',
+    message: 'Internal Server Error',
+    userMessage: 'Something went wrong',
+    category: 'server',
+    severity: 'error',
+    timestamp: new Date(),
+  };
+
+  let loaded: UsersState;
+
+  beforeEach(() => {
+    loaded = usersReducer(
+      initialUsersState,
+      UsersActions.loadUsersSuccess({ users, total: users.length })
+    );
+  });
+
+  describe('optimistic update', () => {
+    const changed: User = { ...users[1], name: 'Jane Doe' };
+
+    it('should apply the change and track it until the API answers', () => {
+      const action = UsersActions.updateUser({ user: changed });
+      const state = usersReducer(loaded, action);
+
+      expect(state.entities['2']?.name).toBe('Jane Doe');
+      expect(state.entityStatus['2']?.loading).toBeTrue();
+      expect(state.pendingOperations[action.operationId]?.previous).toEqual(users[1]);
+    });
+
+    it('should roll back to the previous user on failure', () => {
+      const action = UsersActions.updateUser({ user: changed });
+      const pending = usersReducer(loaded, action);
+      const state = usersReducer(
+        pending,
+        UsersActions.updateUserFailure({ error, userId: '2', operationId: action.operationId })
+      );
+
+      expect(state.entities['2']).toEqual(users[1]);
+      expect(state.ids).toEqual(['1', '2', '3']);
+      expect(state.error).toBe(error);
+      expect(state.entityStatus['2']).toEqual({ loading: false, error });
+      expect(state.pendingOperations).toEqual({});
+    });
+
+    it('should keep the server user on success', () => {
+      const action = UsersActions.updateUser({ user: changed });
+      const pending = usersReducer(loaded, action);
+      const saved = { ...changed, name: 'Jane D.' };
+      const state = usersReducer(
+        pending,
+        UsersActions.updateUserSuccess({ user: saved, operationId: action.operationId })
+      );
+
+      expect(state.entities['2']).toEqual(saved);
+      expect(state.entityStatus['2']).toBeUndefined();
+      expect(state.pendingOperations).toEqual({});
+    });
+
+    it('should keep the change when it is queued offline', () => {
+      const action = UsersActions.updateUser({ user: changed });
+      const pending = usersReducer(loaded, action);
+      const state = usersReducer(
+        pending,
+        UsersActions.updateUserQueued({ user: changed, operationId: action.operationId })
+      );
+
+      expect(state.entities['2']).toEqual(changed);
+      expect(state.error).toBeNull();
+      expect(state.entityStatus['2']).toBeUndefined();
+      expect(state.pendingOperations).toEqual({});
+    });
+
+    it('should only roll back the failed one of concurrent changes', () => {
+      const first = UsersActions.updateUser({ user: { ...users[0], name: 'John' } });
+      const second = UsersActions.updateUser({ user: changed });
+      const pending = usersReducer(usersReducer(loaded, first), second);
+      const state = usersReducer(
+        pending,
+        UsersActions.updateUserFailure({ error, userId: '1', operationId: first.operationId })
+      );
+
+      expect(state.entities['1']).toEqual(users[0]);
+      expect(state.entities['2']).toEqual(changed);
+      expect(Object.keys(state.pendingOperations)).toEqual([second.operationId]);
+    });
+  });
+
+  describe('optimistic delete', () => {
+    it('should remove the user right away', () => {
+      const state = usersReducer(loaded, UsersActions.deleteUser({ userId: '2' }));
+
+      expect(state.ids).toEqual(['1', '3']);
+      expect(state.total).toBe(2);
+    });
+
+    it('should clear the selection of the deleted user', () => {
+      const selected = usersReducer(loaded, UsersActions.selectUser({ userId: '2' }));
+      const state = usersReducer(selected, UsersActions.deleteUser({ userId: '2' }));
+
+      expect(state.selectedUserId).toBeNull();
+    });
+
+    it('should restore the user at its position on failure', () => {
+      const action = UsersActions.deleteUser({ userId: '2' });
+      const pending = usersReducer(loaded, action);
+      const state = usersReducer(
+        pending,
+        UsersActions.deleteUserFailure({ error, userId: '2', operationId: action.operationId })
+      );
+
+      expect(state.ids).toEqual(['1', '2', '3']);
+      expect(state.entities['2']).toEqual(users[1]);
+      expect(state.total).toBe(3);
+      expect(state.error).toBe(error);
+      expect(state.pendingOperations).toEqual({});
+    });
+
+    it('should keep the user removed when the delete is queued offline', () => {
+      const action = UsersActions.deleteUser({ userId: '2' });
+      const pending = usersReducer(loaded, action);
+      const state = usersReducer(
+        pending,
+        UsersActions.deleteUserQueued({ userId: '2', operationId: action.operationId })
+      );
+
+      expect(state.ids).toEqual(['1', '3']);
+      expect(state.total).toBe(2);
+      expect(state.pendingOperations).toEqual({});
+    });
+  });
+
+  describe('users that are not loaded', () => {
+    it('should track the request without changing the list', () => {
+      const state = usersReducer(loaded, UsersActions.deleteUser({ userId: '99' }));
+
+      expect(state.ids).toEqual(['1', '2', '3']);
+      expect(state.total).toBe(3);
+      expect(state.entityStatus['99']).toEqual({ loading: true, error: null });
+    });
+
+    it('should record the error of a failed change', () => {
+      const action = UsersActions.updateUser({ user: { ...users[0], id: '99' } });
+      const pending = usersReducer(loaded, action);
+      const state = usersReducer(
+        pending,
+        UsersActions.updateUserFailure({ error, userId: '99', operationId: action.operationId })
+      );
+
+      expect(state.ids).toEqual(['1', '2', '3']);
+      expect(state.error).toBe(error);
+      expect(state.entityStatus['99']).toEqual({ loading: false, error });
+    });
+  });
+});
@@ -3,8 +3,83 @@
  */
 
 import { createReducer, on } from '@ngrx/store';
+import { AppError } from '../../../../core/error';
 import { UsersActions } from '../actions/users.actions';
-import { UsersState, initialUsersState } from '../state/users.state';
+import {
+  PendingUserOperation,
+  UserEntityStatus,
+  UsersQuery,
+  UsersState,
+  initialUsersQuery,
+  initialUsersState,
+  usersAdapter,
+} from '../state/users.state';
+
+function withoutOperation(
+  operations: Record<string, PendingUserOperation>,
+  operationId: string
+): Record<string, PendingUserOperation> {
+  const { [operationId]: _, ...rest } = operations;
+  return rest;
+}
+
+/**
+ * Set the request status of a user; null clears it back to idle
+ */
+function withStatus(
+  statuses: Record<string, UserEntityStatus>,
+  userId: string,
+  status: UserEntityStatus | null
+): Record<string, UserEntityStatus> {
+  const { [userId]: _, ...rest } = statuses;
+  return status ? { ...rest, [userId]: status } : rest;
+}
+
+/**
+ * Apply query changes, going back to the first page unless the page changed
+ */
+function withQuery(state: UsersState, changes: Partial<UsersQuery>): UsersState {
+  return {
+    ...state,
+    query: { ...state.query, page: 1, ...changes },
+  };
+}
+
+/**
+ * Undo an optimistic change: restore the previous user at its position
+ *
+ * Changes to users outside the store have nothing to restore; they only
+ * record the error.
+ */
+function rollback(
+  state: UsersState,
+  operationId: string,
+  userId: string,
+  error: AppError
+): UsersState {
+  const operation = state.pendingOperations[operationId];
+  if (!operation) {
+    return {
+      ...state,
+      error,
+      entityStatus: withStatus(state.entityStatus, userId, { loading: false, error }),
+    };
+  }
+
+  const { previous, index } = operation;
+  const restored = usersAdapter.upsertOne(previous, state);
+  const ids = (restored.ids as string[]).filter((id) => id !== userId);
+  ids.splice(Math.min(index, ids.length), 0, userId);
+
+  return {
+    ...restored,
+    ids,
+    total: operation.type === 'delete' ? state.total + 1 : state.total,
+    error,
+    entityStatus: withStatus(state.entityStatus, userId, { loading: false, error }),
+    pendingOperations: withoutOperation(state.pendingOperations, operationId),
+  };
+}
 
 export const usersReducer = createReducer(
   initialUsersState,
@@ -16,12 +91,14 @@ export const usersReducer = createReducer(
     error: null,
   })),
 
-  on(UsersActions.loadUsersSuccess, (state, { users }): UsersState => ({
-    ...state,
-    users,
-    isLoading: false,
-    error: null,
-  })),
+  on(UsersActions.loadUsersSuccess, (state, { users, total }): UsersState =>
+    usersAdapter.setAll(users, {
+      ...state,
+      total,
+      isLoading: false,
+      error: null,
+    })
+  ),
 
   on(UsersActions.loadUsersFailure, (state, { error }): UsersState => ({
     ...state,
@@ -29,72 +106,184 @@ export const usersReducer = createReducer(
     error,
   })),
 
-  // Select User
-  on(UsersActions.selectUser, (state, { userId }): UsersState => ({
+  // Load User (upserted next to the current page)
+  on(UsersActions.loadUser, (state, { userId }): UsersState => ({
     ...state,
-    selectedUserId: userId,
+    entityStatus: withStatus(state.entityStatus, userId, { loading: true, error: null }),
   })),
 
-  on(UsersActions.clearSelection, (state): UsersState => ({
+  on(UsersActions.loadUserSuccess, (state, { user }): UsersState =>
+    usersAdapter.upsertOne(user, {
+      ...state,
+      entityStatus: withStatus(state.entityStatus, user.id, null),
+    })
+  ),
+
+  on(UsersActions.loadUserFailure, (state, { userId, error }): UsersState => ({
     ...state,
-    selectedUserId: null,
+    entityStatus: withStatus(state.entityStatus, userId, { loading: false, error }),
   })),
 
-  // Add User
-  on(UsersActions.addUser, (state): UsersState => ({
+  // Load Profile
+  on(UsersActions.loadProfileSuccess, (state, { user }): UsersState => ({
     ...state,
-    isLoading: true,
-    error: null,
+    profile: user,
   })),
 
-  on(UsersActions.addUserSuccess, (state, { user }): UsersState => ({
+  on(UsersActions.loadProfileFailure, (state, { error }): UsersState => ({
     ...state,
-    users: [...state.users, user],
-    isLoading: false,
+    error,
   })),
 
-  on(UsersActions.addUserFailure, (state, { error }): UsersState => ({
+  // Query
+  on(UsersActions.setQuery, (state, { query }): UsersState => ({
     ...state,
-    isLoading: false,
-    error,
+    query,
   })),
 
-  // Update User
-  on(UsersActions.updateUser, (state): UsersState => ({
+  on(UsersActions.setSearch, (state, { search }): UsersState => withQuery(state, { search })),
+
+  on(UsersActions.setSort, (state, { sort, order }): UsersState =>
+    withQuery(state, { sort, order: order ?? 'asc' })
+  ),
+
+  on(UsersActions.setFilters, (state, { filters }): UsersState =>
+    withQuery(state, { filters: { ...state.query.filters, ...filters } })
+  ),
+
+  on(UsersActions.setPage, (state, { page }): UsersState => withQuery(state, { page })),
+
+  on(UsersActions.setPageSize, (state, { pageSize }): UsersState =>
+    withQuery(state, { pageSize })
+  ),
+
+  on(UsersActions.resetQuery, (state): UsersState => ({
     ...state,
-    isLoading: true,
-    error: null,
+    query: initialUsersQuery,
   })),
 
-  on(UsersActions.updateUserSuccess, (state, { user }): UsersState => ({
+  // Select User
+  on(UsersActions.selectUser, (state, { userId }): UsersState => ({
     ...state,
-    users: state.users.map((u) => (u.id === user.id ? user : u)),
-    isLoading: false,
+    selectedUserId: userId,
   })),
 
-  on(UsersActions.updateUserFailure, (state, { error }): UsersState => ({
+  on(UsersActions.clearSelection, (state): UsersState => ({
     ...state,
-    isLoading: false,
-    error,
+    selectedUserId: null,
   })),
 
-  // Delete User
-  on(UsersActions.deleteUser, (state): UsersState => ({
+  // Add User
+  on(UsersActions.addUser, (state): UsersState => ({
     ...state,
     isLoading: true,
     error: null,
   })),
 
-  on(UsersActions.deleteUserSuccess, (state, { userId }): UsersState => ({
+  on(UsersActions.addUserSuccess, (state, { user }): UsersState =>
+    usersAdapter.addOne(user, {
+      ...state,
+      total: state.total + 1,
+      isLoading: false,
+    })
+  ),
+
+  on(UsersActions.addUserFailure, (state, { error }): UsersState => ({
     ...state,
-    users: state.users.filter((u) => u.id !== userId),
-    selectedUserId: state.selectedUserId === userId ? null : state.selectedUserId,
     isLoading: false,
+    error,
   })),
 
-  on(UsersActions.deleteUserFailure, (state, { error }): UsersState => ({
+  // Update User (optimistic)
+  on(UsersActions.updateUser, (state, { user, operationId }): UsersState => {
+    const previous = state.entities[user.id];
+    if (!previous) {
+      // Not loaded (e.g. edited from its own page): only track the request
+      return {
+        ...state,
+        error: null,
+        entityStatus: withStatus(state.entityStatus, user.id, { loading: true, error: null }),
+      };
+    }
+
+    return usersAdapter.setOne(user, {
+      ...state,
+      error: null,
+      entityStatus: withStatus(state.entityStatus, user.id, { loading: true, error: null }),
+      pendingOperations: {
+        ...state.pendingOperations,
+        [operationId]: {
+          id: operationId,
+          type: 'update',
+          userId: user.id,
+          previous,
+          index: (state.ids as string[]).indexOf(user.id),
+        },
+      },
+    });
+  }),
+
+  on(UsersActions.updateUserSuccess, (state, { user, operationId }): UsersState =>
+    usersAdapter.setOne(user, {
+      ...state,
+      entityStatus: withStatus(state.entityStatus, user.id, null),
+      pendingOperations: withoutOperation(state.pendingOperations, operationId),
+    })
+  ),
+
+  on(UsersActions.updateUserFailure, (state, { error, userId, operationId }): UsersState =>
+    rollback(state, operationId, userId, error)
+  ),
+
+  // The outbox sends the change later: keep the optimistic user
+  on(UsersActions.updateUserQueued, (state, { user, operationId }): UsersState => ({
     ...state,
-    isLoading: false,
-    error,
-  }))
+    entityStatus: withStatus(state.entityStatus, user.id, null),
+    pendingOperations: withoutOperation(state.pendingOperations, operationId),
+  })),
+
+  // Delete User (optimistic)
+  on(UsersActions.deleteUser, (state, { userId, operationId }): UsersState => {
+    const previous = state.entities[userId];
+    if (!previous) {
+      return {
+        ...state,
+        error: null,
+        entityStatus: withStatus(state.entityStatus, userId, { loading: true, error: null }),
+      };
+    }
+
+    return usersAdapter.removeOne(userId, {
+      ...state,
+      total: Math.max(state.total - 1, 0),
+      selectedUserId: state.selectedUserId === userId ? null : state.selectedUserId,
+      error: null,
+      entityStatus: withStatus(state.entityStatus, userId, { loading: true, error: null }),
+      pendingOperations: {
+        ...state.pendingOperations,
+        [operationId]: {
+          id: operationId,
+          type: 'delete',
+          userId,
+          previous,
+          index: (state.ids as string[]).indexOf(userId),
+        },
+      },
+    });
+  }),
+
+  // Queued deletes are sent by the outbox later: the user stays removed
+  on(
+    UsersActions.deleteUserSuccess,
+    UsersActions.deleteUserQueued,
+    (state, { userId, operationId }): UsersState => ({
+      ...state,
+      entityStatus: withStatus(state.entityStatus, userId, null),
+      pendingOperations: withoutOperation(state.pendingOperations, operationId),
+    })
+  ),
+
+  on(UsersActions.deleteUserFailure, (state, { error, userId, operationId }): UsersState =>
+    rollback(state, operationId, userId, error)
+  )
 );
@@ -3,17 +3,22 @@
  */
 
 import { createFeatureSelector, createSelector } from '@ngrx/store';
-import { UsersState } from '../state/users.state';
+import { UserEntityStatus, UsersState, usersAdapter } from '../state/users.state';
+
+const IDLE_STATUS: UserEntityStatus = { loading: false, error: null };
 
 // Feature selector
 export const selectUsersState = createFeatureSelector<UsersState>('users');
 
-// Memoized selectors
-export const selectAllUsers = createSelector(
-  selectUsersState,
-  (state: UsersState) => state.users
-);
+// Entity selectors
+const { selectAll, selectEntities, selectIds } = usersAdapter.getSelectors(selectUsersState);
+
+/** Users of the current page, in API order */
+export const selectAllUsers = selectAll;
+export const selectUserEntities = selectEntities;
+export const selectUserIds = selectIds;
 
+// Memoized selectors
 export const selectUsersLoading = createSelector(
   selectUsersState,
   (state: UsersState) => state.isLoading
@@ -30,15 +35,81 @@ export const selectSelectedUserId = createSelector(
 );
 
 export const selectSelectedUser = createSelector(
-  selectAllUsers,
+  selectUserEntities,
   selectSelectedUserId,
-  (users, selectedId) => users.find((user) => user.id === selectedId) || null
+  (entities, selectedId) => (selectedId && entities[selectedId]) || null
 );
 
-export const selectUsersCount = createSelector(
-  selectAllUsers,
-  (users) => users.length
-);
+/** Number of users on the current page */
+export const selectUsersCount = createSelector(selectUserIds, (ids) => ids.length);
 
 export const selectUserById = (userId: string) =>
-  createSelector(selectAllUsers, (users) => users.find((user) => user.id === userId) || null);
+  createSelector(selectUserEntities, (entities) => entities[userId] ?? null);
+
+export const selectUserProfile = createSelector(
+  selectUsersState,
+  (state: UsersState) => state.profile
+);
+
+// Query and paging
+export const selectUsersQuery = createSelector(
+  selectUsersState,
+  (state: UsersState) => state.query
+);
+
+export const selectCurrentPage = createSelector(selectUsersQuery, (query) => query.page);
+
+export const selectPageSize = createSelector(selectUsersQuery, (query) => query.pageSize);
+
+/** Number of users matching the query, across all pages */
+export const selectUsersTotal = createSelector(
+  selectUsersState,
+  (state: UsersState) => state.total
+);
+
+export const selectTotalPages = createSelector(selectUsersTotal, selectPageSize, (total, pageSize) =>
+  Math.max(Math.ceil(total / pageSize), 1)
+);
+
+export const selectHasNextPage = createSelector(
+  selectCurrentPage,
+  selectTotalPages,
+  (page, totalPages) => page < totalPages
+);
+
+export const selectHasPreviousPage = createSelector(selectCurrentPage, (page) => page > 1);
+
+// Per-user request status
+export const selectUserStatus = (userId: string) =>
+  createSelector(
+    selectUsersState,
+    (state: UsersState) => state.entityStatus[userId] ?? IDLE_STATUS
+  );
+
+export const selectUserLoading = (userId: string) =>
+  createSelector(selectUserStatus(userId), (status) => status.loading);
+
+export const selectUserError = (userId: string) =>
+  createSelector(selectUserStatus(userId), (status) => status.error);
+
+export const selectSelectedUserStatus = createSelector(
+  selectUsersState,
+  selectSelectedUserId,
+  (state: UsersState, selectedId) => (selectedId && state.entityStatus[selectedId]) || IDLE_STATUS
+);
+
+// Optimistic updates
+export const selectPendingOperations = createSelector(
+  selectUsersState,
+  (state: UsersState) => state.pendingOperations
+);
+
+export const selectHasPendingOperations = createSelector(
+  selectPendingOperations,
+  (operations) => Object.keys(operations).length > 0
+);
+
+export const selectIsUserPending = (userId: string) =>
+  createSelector(selectPendingOperations, (operations) =>
+    Object.values(operations).some((operation) => operation.userId === userId)
+  );
@@ -1,25 +1,111 @@
 /**
  * Users Feature State
  *
- * State specific to the users feature module.
+ * State specific to the users feature module. Users are normalized with
+ * @ngrx/entity; `ids` holds the current page in the order the API sent it.
  */
 
-export interface User {
+import { EntityState, createEntityAdapter } from '@ngrx/entity';
+import { AppError } from '../../../../core/error';
+import { User, UserListQuery, UserSortField } from '../../../../shared/models';
+
+export type { User, UserSortField } from '../../../../shared/models';
+
+/**
+ * Filters applied to the users list
+ */
+export interface UsersFilters {
+  role: string | null;
+}
+
+/**
+ * Query the users list is loaded with, sent to the API by UsersEffects
+ */
+export interface UsersQuery {
+  search: string;
+  sort: UserSortField | null;
+  order: 'asc' | 'desc';
+  filters: UsersFilters;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Request status of a single user
+ */
+export interface UserEntityStatus {
+  loading: boolean;
+  error: AppError | null;
+}
+
+/**
+ * Change applied optimistically, waiting for the API
+ */
+export interface PendingUserOperation {
   id: string;
-  name: string;
-  email: string;
+  type: 'update' | 'delete';
+  userId: string;
+  /** User before the change, restored on rollback */
+  previous: User;
+  /** Position of the user in the list before the change */
+  index: number;
 }
 
-export interface UsersState {
-  users: User[];
+export interface UsersState extends EntityState<User> {
   selectedUserId: string | null;
   isLoading: boolean;
-  error: string | null;
+  error: AppError | null;
+  /** The signed-in user, from the profile endpoint */
+  profile: User | null;
+  query: UsersQuery;
+  /** Number of users matching the query on the server, across all pages */
+  total: number;
+  /** Request status by user ID; users without an entry are idle */
+  entityStatus: Record<string, UserEntityStatus>;
+  /** Optimistic changes by operation ID */
+  pendingOperations: Record<string, PendingUserOperation>;
 }
 
-export const initialUsersState: UsersState = {
-  users: [],
+export const DEFAULT_USERS_PAGE_SIZE = 20;
+
+export const initialUsersQuery: UsersQuery = {
+  search: '',
+  sort: null,
+  order: 'asc',
+  filters: { role: null },
+  page: 1,
+  pageSize: DEFAULT_USERS_PAGE_SIZE,
+};
+
+export const usersAdapter = createEntityAdapter<User>();
+
+export const initialUsersState: UsersState = usersAdapter.getInitialState({
   selectedUserId: null,
   isLoading: false,
   error: null,
-};
+  profile: null,
+  query: initialUsersQuery,
+  total: 0,
+  entityStatus: {},
+  pendingOperations: {},
+});
+
+/**
+ * Map the store query to the users list endpoint params
+ */
+export function toUserListQuery(query: UsersQuery): UserListQuery {
+  return {
+    ...(query.search.trim() ? { search: query.search.trim() } : {}),
+    ...(query.filters.role ? { role: query.filters.role } : {}),
+    ...(query.sort ? { sort: query.sort, order: query.order } : {}),
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+/**
+ * Generate the ID tracking an optimistic change
+ */
+export function createOperationId(): string {
+  return `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
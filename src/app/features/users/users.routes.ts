@@ -7,8 +7,10 @@
 import { Routes } from '@angular/router';
 import { provideState } from '@ngrx/store';
 import { provideEffects } from '@ngrx/effects';
+import { permissionGuard } from '../../core/auth';
 import { usersReducer } from './store/reducers/users.reducer';
 import { UsersEffects } from './store/effects/users.effects';
+import { userResolver } from './resolvers/user.resolver';
 
 export const USERS_ROUTES: Routes = [
   {
@@ -26,12 +28,41 @@ export const USERS_ROUTES: Routes = [
             (m) => m.UsersListComponent
           ),
       },
+      {
+        path: 'new',
+        loadComponent: () =>
+          import('./components/user-form/user-form.component').then(
+            (m) => m.UserFormComponent
+          ),
+        canActivate: [permissionGuard],
+        data: { permissions: ['users.create'] },
+      },
+      {
+        path: 'import',
+        loadComponent: () =>
+          import('./components/user-import/user-import.component').then(
+            (m) => m.UserImportComponent
+          ),
+        canActivate: [permissionGuard],
+        data: { permissions: ['users.import'] },
+      },
+      {
+        path: ':id/edit',
+        loadComponent: () =>
+          import('./components/user-form/user-form.component').then(
+            (m) => m.UserFormComponent
+          ),
+        resolve: { user: userResolver },
+        canActivate: [permissionGuard],
+        data: { permissions: ['users.edit'] },
+      },
       {
         path: ':id',
         loadComponent: () =>
           import('./components/user-detail/user-detail.component').then(
             (m) => m.UserDetailComponent
           ),
+        resolve: { user: userResolver },
       },
     ],
   },
@@ -0,0 +1,78 @@
+/**
+ * Users Query Params
+ *
+ * Two-way mapping between the users table state and the URL query string,
+ * so a table view can be shared and bookmarked. Defaults are left out of
+ * the URL.
+ */
+
+import { ParamMap, Params } from '@angular/router';
+import { USER_ROLES, UserSortField } from '../../../shared/models';
+import { UsersQuery, initialUsersQuery } from '../store/state/users.state';
+
+/**
+ * Columns of the users table; `name` is always shown
+ */
+export const USER_TABLE_COLUMNS = ['name', 'email', 'role', 'createdAt'] as const;
+
+export type UserTableColumn = (typeof USER_TABLE_COLUMNS)[number];
+
+export const USER_PAGE_SIZES = [10, 20, 50] as const;
+
+const SORT_FIELDS: readonly UserSortField[] = ['name', 'email', 'role', 'createdAt'];
+
+/**
+ * Table state held in the URL
+ */
+export interface UsersTableParams {
+  query: UsersQuery;
+  hiddenColumns: UserTableColumn[];
+}
+
+function positiveInt(value: string | null, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read the table state from the URL, ignoring unknown or invalid values
+ */
+export function parseUsersTableParams(params: ParamMap): UsersTableParams {
+  const sort = params.get('sort') as UserSortField | null;
+  const role = params.get('role');
+  const pageSize = positiveInt(params.get('pageSize'), initialUsersQuery.pageSize);
+
+  return {
+    query: {
+      search: params.get('search') ?? '',
+      sort: sort && SORT_FIELDS.includes(sort) ? sort : null,
+      order: params.get('order') === 'desc' ? 'desc' : 'asc',
+      filters: {
+        role: role && (USER_ROLES as readonly string[]).includes(role) ? role : null,
+      },
+      page: positiveInt(params.get('page'), 1),
+      pageSize: (USER_PAGE_SIZES as readonly number[]).includes(pageSize)
+        ? pageSize
+        : initialUsersQuery.pageSize,
+    },
+    hiddenColumns: (params.get('hide')?.split(',') ?? []).filter(
+      (column): column is UserTableColumn =>
+        column !== 'name' && (USER_TABLE_COLUMNS as readonly string[]).includes(column)
+    ),
+  };
+}
+
+/**
+ * Query params for a table state; null values remove the param
+ */
+export function toUsersTableParams({ query, hiddenColumns }: UsersTableParams): Params {
+  return {
+    search: query.search.trim() || null,
+    sort: query.sort,
+    order: query.sort && query.order === 'desc' ? 'desc' : null,
+    role: query.filters.role,
+    page: query.page > 1 ? query.page : null,
+    pageSize: query.pageSize !== initialUsersQuery.pageSize ? query.pageSize : null,
+    hide: hiddenColumns.length > 0 ? hiddenColumns.join(',') : null,
+  };
+}
@@ -0,0 +1,76 @@
+import { Component, inject, input } from '@angular/core';
+import { AbstractControl } from '@angular/forms';
+import { TranslateService } from '@ngx-translate/core';
+import { SERVER_ERROR_KEY, ServerFieldError, translateServerError } from '../../utils/form-errors';
+
+/**
+ * Translation keys of the built-in validators
+ */
+const VALIDATOR_MESSAGE_KEYS: Record<string, string> = {
+  required: 'validation.required',
+  email: 'validation.email',
+  minlength: 'validation.minLength',
+  maxlength: 'validation.maxLength',
+  pattern: 'validation.pattern',
+};
+
+/**
+ * FieldErrorComponent
+ *
+ * Shows the first error of a form control once it is touched or dirty,
+ * translated. Server errors (see applyServerErrors) are translated with
+ * translateServerError.
+ *
+ * @example
+ * <input formControlName="email" />
+ * <app-field-error [control]="form.controls.email" />
+ */
+@Component({
+  selector: 'app-field-error',
+  standalone: true,
+  template: `
+    @if (message(); as text) {
+      <p class="field-error" role="alert">{{ text }}</p>
+    }
+  `,
+  styles: [`
+    .field-error {
+      margin: 4px 0 0;
+      color: #dc2626;
+      font-size: 0.875rem;
+    }
+  `],
+})
+export class FieldErrorComponent {
+  private readonly translate = inject(TranslateService);
+
+  readonly control = input.required<AbstractControl>();
+
+  /**
+   * Message of the first error, or null while there is nothing to show
+   *
+   * Called from the template: control state is not a signal.
+   */
+  message(): string | null {
+    const control = this.control();
+    if (!control.errors || !(control.touched || control.dirty)) {
+      return null;
+    }
+
+    const [key, value] = Object.entries(control.errors)[0];
+
+    if (key === SERVER_ERROR_KEY) {
+      return translateServerError(this.translate, value as ServerFieldError);
+    }
+
+    const messageKey = VALIDATOR_MESSAGE_KEYS[key];
+    if (!messageKey) {
+      return this.translate.instant('validation.invalid');
+    }
+
+    return this.translate.instant(messageKey, {
+      min: value?.requiredLength,
+      max: value?.requiredLength,
+    });
+  }
+}
@@ -7,10 +7,7 @@
  * Note: These are presentational/dumb components with no business logic.
  */
 
-// Export your shared components here
+export * from './field-error/field-error.component';
 // export * from './button/button.component';
 // export * from './card/card.component';
 // export * from './modal/modal.component';
-
-// Placeholder export to make this a valid module
-export {};
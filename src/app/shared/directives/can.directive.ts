@@ -0,0 +1,49 @@
+import { Directive, TemplateRef, ViewContainerRef, effect, inject, input } from '@angular/core';
+import { Permission, PermissionService } from '../../core/auth';
+
+/**
+ * CanDirective
+ *
+ * Renders its template only when the current user has the permission, or
+ * any of the permissions when given a list. An optional `else` template is
+ * rendered otherwise. Updates when the user logs in or out.
+ *
+ * @example
+ * <button *appCan="'users.delete'" (click)="delete()">Delete</button>
+ *
+ * <a *appCan="['users.create', 'users.import']; else readOnly">Manage</a>
+ * <ng-template #readOnly>…</ng-template>
+ */
+@Directive({
+  selector: '[appCan]',
+  standalone: true,
+})
+export class CanDirective {
+  private readonly templateRef = inject(TemplateRef);
+  private readonly viewContainer = inject(ViewContainerRef);
+  private readonly permissionService = inject(PermissionService);
+  private rendered?: TemplateRef<unknown> | null;
+
+  readonly appCan = input.required<Permission | readonly Permission[]>();
+  readonly appCanElse = input<TemplateRef<unknown> | null>(null);
+
+  constructor() {
+    effect(() => {
+      const permissions = this.appCan();
+      const allowed = this.permissionService.canAny(
+        typeof permissions === 'string' ? [permissions] : permissions
+      );
+      const template = allowed ? this.templateRef : this.appCanElse();
+
+      if (template === this.rendered) {
+        return;
+      }
+
+      this.viewContainer.clear();
+      if (template) {
+        this.viewContainer.createEmbeddedView(template);
+      }
+      this.rendered = template;
+    });
+  }
+}
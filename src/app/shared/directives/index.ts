@@ -5,9 +5,5 @@
  * Examples: HighlightDirective, TooltipDirective, ClickOutsideDirective
  */
 
-// Export your shared directives here
-// export * from './highlight.directive';
-// export * from './tooltip.directive';
-
-// Placeholder export to make this a valid module
-export {};
+export * from './infinite-scroll.directive';
+export * from './can.directive';
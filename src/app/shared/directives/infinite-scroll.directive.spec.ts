@@ -0,0 +1,119 @@
+import { Component, signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { InfiniteScrollDirective } from './infinite-scroll.directive';
+
+/**
+ * Stand-in for IntersectionObserver that lets tests report intersections
+ */
+class FakeIntersectionObserver {
+  static instances: FakeIntersectionObserver[] = [];
+
+  readonly observed = new Set<Element>();
+  observeCalls = 0;
+  disconnected = false;
+
+  constructor(
+    private readonly callback: IntersectionObserverCallback,
+    readonly options?: IntersectionObserverInit
+  ) {
+    FakeIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element): void {
+    this.observed.add(element);
+    this.observeCalls++;
+  }
+
+  unobserve(element: Element): void {
+    this.observed.delete(element);
+  }
+
+  disconnect(): void {
+    this.disconnected = true;
+    this.observed.clear();
+  }
+
+  trigger(isIntersecting: boolean): void {
+    const entries = [...this.observed].map((target) => ({ target, isIntersecting }));
+    this.callback(entries as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+  }
+}
+
+@Component({
+  imports: [InfiniteScrollDirective],
+  template: `
+    <div
+      appInfiniteScroll
+      infiniteScrollMargin="50px"
+      [infiniteScrollDisabled]="disabled()"
+      (scrolled)="scrolled = scrolled + 1"
+    ></div>
+  `,
+})
+class HostComponent {
+  readonly disabled = signal(false);
+  scrolled = 0;
+}
+
+describe('InfiniteScrollDirective', () => {
+  const original = globalThis.IntersectionObserver;
+  let fixture: ComponentFixture<HostComponent>;
+  let observer: FakeIntersectionObserver;
+
+  beforeEach(() => {
+    FakeIntersectionObserver.instances = [];
+    globalThis.IntersectionObserver =
+      FakeIntersectionObserver as unknown as typeof IntersectionObserver;
+
+    fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    observer = FakeIntersectionObserver.instances[0];
+  });
+
+  afterEach(() => {
+    globalThis.IntersectionObserver = original;
+  });
+
+  it('should observe the host element with the configured margin', () => {
+    expect(observer.observed.size).toBe(1);
+    expect(observer.options?.rootMargin).toBe('50px');
+  });
+
+  it('should emit when the sentinel comes into view', () => {
+    observer.trigger(true);
+
+    expect(fixture.componentInstance.scrolled).toBe(1);
+  });
+
+  it('should not emit when the sentinel leaves the view', () => {
+    observer.trigger(false);
+
+    expect(fixture.componentInstance.scrolled).toBe(0);
+  });
+
+  it('should not emit while disabled', () => {
+    fixture.componentInstance.disabled.set(true);
+    fixture.detectChanges();
+
+    observer.trigger(true);
+
+    expect(fixture.componentInstance.scrolled).toBe(0);
+  });
+
+  it('should check the sentinel again when enabled again', () => {
+    fixture.componentInstance.disabled.set(true);
+    fixture.detectChanges();
+    const calls = observer.observeCalls;
+
+    fixture.componentInstance.disabled.set(false);
+    fixture.detectChanges();
+
+    expect(observer.observeCalls).toBe(calls + 1);
+  });
+
+  it('should disconnect when destroyed', () => {
+    fixture.destroy();
+
+    expect(observer.disconnected).toBeTrue();
+  });
+});
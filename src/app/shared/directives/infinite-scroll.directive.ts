@@ -0,0 +1,71 @@
+import {
+  Directive,
+  ElementRef,
+  OnDestroy,
+  OnInit,
+  effect,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+
+/**
+ * InfiniteScrollDirective
+ *
+ * Emits `scrolled` when the host element (a sentinel placed after the list)
+ * comes into view. Pair it with PaginatedDataSource.loadMore().
+ *
+ * The sentinel is re-checked whenever it becomes enabled again, so a page
+ * too short to fill the viewport still triggers the next one.
+ *
+ * @example
+ * @for (user of users.items(); track user.id) { ... }
+ * <div
+ *   appInfiniteScroll
+ *   [infiniteScrollDisabled]="users.loading() || !users.hasNext()"
+ *   (scrolled)="users.loadMore()"
+ * ></div>
+ */
+@Directive({
+  selector: '[appInfiniteScroll]',
+  standalone: true,
+})
+export class InfiniteScrollDirective implements OnInit, OnDestroy {
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+  private observer?: IntersectionObserver;
+
+  /** Distance before the sentinel becomes visible at which to emit */
+  readonly infiniteScrollMargin = input('200px');
+  readonly infiniteScrollDisabled = input(false);
+  readonly scrolled = output<void>();
+
+  constructor() {
+    effect(() => {
+      if (!this.infiniteScrollDisabled() && this.observer) {
+        // Observing again reports the current intersection state
+        const element = this.elementRef.nativeElement;
+        this.observer.unobserve(element);
+        this.observer.observe(element);
+      }
+    });
+  }
+
+  ngOnInit(): void {
+    if (typeof IntersectionObserver === 'undefined') return;
+
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting) && !this.infiniteScrollDisabled()) {
+          this.scrolled.emit();
+        }
+      },
+      { rootMargin: this.infiniteScrollMargin() }
+    );
+
+    this.observer.observe(this.elementRef.nativeElement);
+  }
+
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+  }
+}
@@ -16,3 +16,6 @@ export * from './pipes';
 
 // Models
 export * from './models';
+
+// Utilities
+export * from './utils';
@@ -6,8 +6,5 @@
  */
 
 // Export your shared models here
-// export * from './user.model';
+export * from './user.model';
 // export * from './api-response.model';
-
-// Placeholder export to make this a valid module
-export {};
@@ -0,0 +1,58 @@
+/**
+ * User Models
+ *
+ * User contracts shared between the API layer and features.
+ */
+
+/**
+ * Roles a user can be given
+ */
+export const USER_ROLES = ['admin', 'manager', 'user'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * User interface
+ */
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role?: string;
+  createdAt?: Date;
+}
+
+/**
+ * Create user DTO
+ */
+export interface CreateUserDto {
+  name: string;
+  email: string;
+  role?: string;
+}
+
+/**
+ * Update user DTO
+ */
+export interface UpdateUserDto {
+  name?: string;
+  email?: string;
+  role?: string;
+}
+
+/**
+ * Fields the users list can be sorted by
+ */
+export type UserSortField = 'name' | 'email' | 'role' | 'createdAt';
+
+/**
+ * Query params accepted by the users list endpoint
+ */
+export interface UserListQuery {
+  search?: string;
+  role?: string;
+  sort?: UserSortField;
+  order?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
@@ -0,0 +1,82 @@
+import { CSV_BOM, parseCsv, toCsv } from './csv';
+
+describe('CSV utilities', () => {
+  describe('toCsv', () => {
+    it('should join fields with commas and rows with CRLF', () => {
+      expect(toCsv([['Name', 'Email'], ['أحمد', 'ahmed@example.com']])).toBe(
+        'Name,Email\r\nأحمد,ahmed@example.com'
+      );
+    });
+
+    it('should quote fields with commas, quotes or line breaks', () => {
+      expect(toCsv([['a,b', 'say "hi"', 'line\nbreak']])).toBe(
+        '"a,b","say ""hi""","line\nbreak"'
+      );
+    });
+
+    it('should write empty fields for null and undefined, and dates as ISO strings', () => {
+      expect(toCsv([[null, undefined, new Date('2024-01-15T08:30:00Z'), 3, true]])).toBe(
+        ',,2024-01-15T08:30:00.000Z,3,true'
+      );
+    });
+
+    it('should neutralize text that spreadsheets would run as a formula', () => {
+      expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tx']])).toBe(
+        `'=SUM(A1:A2),'+1,'-1,'@cmd,'\tx`
+      );
+    });
+
+    it('should quote a neutralized formula that needs quoting', () => {
+      expect(toCsv([['=HYPERLINK("http://evil.example","x")']])).toBe(
+        `"'=HYPERLINK(""http://evil.example"",""x"")"`
+      );
+    });
+
+    it('should not change negative numbers', () => {
+      expect(toCsv([[-5]])).toBe('-5');
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should parse quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsv('name,note\r\n"Doe, John","say ""hi""\nagain"')).toEqual([
+        ['name', 'note'],
+        ['Doe, John', 'say "hi"\nagain'],
+      ]);
+    });
+
+    it('should accept LF line endings and skip empty lines', () => {
+      expect(parseCsv('a,b\n\n1,2\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should drop a leading BOM', () => {
+      expect(parseCsv(`${CSV_BOM}name\nأحمد`)).toEqual([['name'], ['أحمد']]);
+    });
+
+    it('should detect semicolon separated files', () => {
+      expect(parseCsv('name;email\nJohn;john@example.com')).toEqual([
+        ['name', 'email'],
+        ['John', 'john@example.com'],
+      ]);
+    });
+
+    it('should keep empty fields', () => {
+      expect(parseCsv('a,,c\n,,')).toEqual([
+        ['a', '', 'c'],
+        ['', '', ''],
+      ]);
+    });
+
+    it('should read back what toCsv writes', () => {
+      const rows = [
+        ['Name', 'Note'],
+        ['Doe, John', 'say "hi"\r\non two lines'],
+      ];
+
+      expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * CSV Utilities
+ *
+ * RFC 4180 CSV reading and writing for spreadsheet imports and exports.
+ */
+
+/**
+ * Byte order mark that makes Excel read the file as UTF-8 (Arabic text
+ * is garbled without it)
+ */
+export const CSV_BOM = '\uFEFF';
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Characters that make spreadsheet apps evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Neutralize formulas in user-entered text (CSV injection)
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV, quoting fields that need it
+ *
+ * @example
+ * toCsv([['Name', 'Email'], ['أحمد', 'ahmed@example.com']])
+ */
+export function toCsv(rows: readonly (readonly CsvValue[])[]): string {
+  return rows.map((row) => row.map(formatCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * CSV file contents as a Blob, with the UTF-8 BOM
+ */
+export function toCsvBlob(rows: readonly (readonly CsvValue[])[]): Blob {
+  return new Blob([CSV_BOM, toCsv(rows)], { type: CSV_MIME_TYPE });
+}
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields (with commas, quotes and line breaks), CRLF or LF
+ * line endings and a leading BOM. Semicolon-separated files, as saved by
+ * Excel in some locales, are detected from the first line. Empty lines are
+ * skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,74 @@
+import { importProvidersFrom } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { FormControl, FormGroup } from '@angular/forms';
+import { TranslateModule, TranslateService } from '@ngx-translate/core';
+import { SERVER_ERROR_KEY, applyServerErrors, translateServerError } from './form-errors';
+
+describe('form errors', () => {
+  describe('applyServerErrors', () => {
+    const form = () =>
+      new FormGroup({
+        email: new FormControl(''),
+        address: new FormGroup({ city: new FormControl('') }),
+      });
+
+    it('should put errors on their controls and return the rest', () => {
+      const group = form();
+      const unmatched = applyServerErrors(
+        group,
+        [
+          { field: 'email', message: 'Email is taken', code: 'emailTaken' },
+          { field: 'address.city', message: 'Unknown city' },
+          { field: 'plan', message: 'Plan expired' },
+        ],
+        { email: 'validation.email' }
+      );
+
+      expect(group.controls.email.errors?.[SERVER_ERROR_KEY]).toEqual({
+        message: 'Email is taken',
+        code: 'emailTaken',
+        messageKey: 'validation.email',
+      });
+      expect(group.get('address.city')?.errors?.[SERVER_ERROR_KEY]?.message).toBe('Unknown city');
+      expect(group.controls.email.touched).toBeTrue();
+      expect(unmatched.map((e) => e.field)).toEqual(['plan']);
+    });
+  });
+
+  describe('translateServerError', () => {
+    let translate: TranslateService;
+
+    beforeEach(() => {
+      TestBed.configureTestingModule({
+        providers: [importProvidersFrom(TranslateModule.forRoot())],
+      });
+      translate = TestBed.inject(TranslateService);
+      translate.setTranslation('en', {
+        validation: {
+          invalid: 'This value is invalid',
+          email: 'Enter a valid email address',
+          emailTaken: 'This email is already in use',
+        },
+      });
+      translate.use('en');
+    });
+
+    it('should prefer the translation of the error code', () => {
+      const error = { code: 'emailTaken', messageKey: 'validation.email' };
+      expect(translateServerError(translate, error)).toBe('This email is already in use');
+    });
+
+    it('should fall back to the field message for unknown or missing codes', () => {
+      const messageKey = 'validation.email';
+
+      expect(translateServerError(translate, { code: 'UNIQUE', messageKey })).toBe(
+        'Enter a valid email address'
+      );
+      expect(translateServerError(translate, { messageKey })).toBe('Enter a valid email address');
+    });
+
+    it('should fall back to a generic message', () => {
+      expect(translateServerError(translate, {})).toBe('This value is invalid');
+    });
+  });
+});
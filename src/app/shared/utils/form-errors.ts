@@ -0,0 +1,90 @@
+/**
+ * Form Error Utilities
+ *
+ * Put server-side validation errors on the form controls they belong to.
+ */
+
+import { AbstractControl } from '@angular/forms';
+import { TranslateService } from '@ngx-translate/core';
+import { ValidationError } from '../../core/error';
+
+/**
+ * Key of server errors in a control's `errors`
+ */
+export const SERVER_ERROR_KEY = 'server';
+
+/**
+ * Value stored under SERVER_ERROR_KEY
+ */
+export interface ServerFieldError {
+  message: string;
+  code?: string;
+  /** Translation key used when the server sends no known code */
+  messageKey?: string;
+}
+
+/**
+ * Set server validation errors on the matching controls
+ *
+ * Fields are looked up with `form.get()`, so dotted paths reach nested
+ * groups. A server error stays until the control's value changes and its
+ * validators run again.
+ *
+ * `messageKeys` maps fields to the translation key shown when the server
+ * sends no code, or one without a translation (see translateServerError).
+ *
+ * @example
+ * const unmatched = applyServerErrors(
+ *   this.form,
+ *   this.errorService.getValidationErrors(appError),
+ *   { email: 'validation.email' }
+ * );
+ *
+ * @returns Errors with no matching control, to show at form level
+ */
+export function applyServerErrors(
+  form: AbstractControl,
+  errors: readonly ValidationError[],
+  messageKeys: Readonly<Record<string, string>> = {}
+): ValidationError[] {
+  const unmatched: ValidationError[] = [];
+
+  for (const error of errors) {
+    const control = form.get(error.field);
+    if (!control) {
+      unmatched.push(error);
+      continue;
+    }
+
+    const serverError: ServerFieldError = {
+      message: error.message,
+      code: error.code,
+      messageKey: messageKeys[error.field],
+    };
+    control.setErrors({ ...control.errors, [SERVER_ERROR_KEY]: serverError });
+    control.markAsTouched();
+  }
+
+  return unmatched;
+}
+
+/**
+ * Translate a server validation error
+ *
+ * Uses `validation.<code>` when that key exists, then the error's
+ * messageKey, then the generic `validation.invalid`. Server messages are
+ * never shown as they are: they are not translated.
+ */
+export function translateServerError(
+  translate: TranslateService,
+  error: Pick<ServerFieldError, 'code' | 'messageKey'>
+): string {
+  if (error.code) {
+    const key = `validation.${error.code}`;
+    const translated = translate.instant(key);
+    if (translated !== key) {
+      return translated;
+    }
+  }
+  return translate.instant(error.messageKey ?? 'validation.invalid');
+}
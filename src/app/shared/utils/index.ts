@@ -0,0 +1,8 @@
+/**
+ * Shared Utilities
+ *
+ * Framework helpers without UI that can be used across multiple features.
+ */
+
+export * from './form-errors';
+export * from './csv';
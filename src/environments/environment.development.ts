@@ -9,10 +9,20 @@ import { Environment } from './environment.interface';
 export const environment: Environment = {
   production: false,
   enableAuth: true, // Disable Keycloak for local development
+  mockApi: false, // Set to true to run without a backend
   apiUrl: 'http://localhost:3000/api',
+  apiTargets: {
+    hr: { url: 'http://localhost:3001/api' },
+    finance: { url: 'http://localhost:3002/api', timeout: 60000 },
+    ticketing: {
+      url: 'http://localhost:3003/api',
+      headers: { 'X-Client': 'selfservices' },
+    },
+  },
   keycloak: {
     url: 'http://localhost:8080',
     realm: 'selfservices-dev',
     clientId: 'selfservices-app-dev',
   },
+  supportEmail: 'support@example.com',
 };
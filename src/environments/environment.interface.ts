@@ -11,9 +11,46 @@ export interface KeycloakConfig {
   clientId: string;
 }
 
+/**
+ * Access token injection for an API target
+ */
+export interface ApiTargetTokenConfig {
+  /** Header carrying the token (default: 'Authorization') */
+  header?: string;
+  /** Prefix before the token; empty string for none (default: 'Bearer') */
+  scheme?: string;
+  /** Paths below the target URL that are sent without a token, e.g. '/public' */
+  excludedPaths?: string[];
+}
+
+/**
+ * Backend the app talks to
+ */
+export interface ApiTargetConfig {
+  url: string;
+  /** Headers added to every request, unless the request sets them */
+  headers?: Record<string, string>;
+  /** Request timeout (ms), per attempt when retried */
+  timeout?: number;
+  /** Access token injection; false sends requests without a token (default: true) */
+  token?: boolean | ApiTargetTokenConfig;
+}
+
+/**
+ * Named backends besides apiUrl, bound to endpoint groups with forTarget()
+ */
+export interface ApiTargets {
+  hr: ApiTargetConfig;
+  finance: ApiTargetConfig;
+  ticketing: ApiTargetConfig;
+}
+
 export interface Environment {
   production: boolean;
   enableAuth: boolean; // Set to false to disable Keycloak in development
+  mockApi: boolean; // Serve API_ENDPOINTS from in-memory fixtures instead of apiUrl
   apiUrl: string;
+  apiTargets: ApiTargets;
   keycloak: KeycloakConfig;
+  supportEmail: string; // Recipient of access requests from the 403 page
 }
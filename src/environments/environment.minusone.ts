@@ -9,10 +9,20 @@ import { Environment } from './environment.interface';
 export const environment: Environment = {
   production: false,
   enableAuth: true, // Enable Keycloak for staging
+  mockApi: false,
   apiUrl: 'https://api-minusone.example.com/api',
+  apiTargets: {
+    hr: { url: 'https://hr-api-minusone.example.com/api' },
+    finance: { url: 'https://finance-api-minusone.example.com/api', timeout: 60000 },
+    ticketing: {
+      url: 'https://ticketing-api-minusone.example.com/api',
+      headers: { 'X-Client': 'selfservices' },
+    },
+  },
   keycloak: {
     url: 'https://keycloak-minusone.example.com',
     realm: 'selfservices-minusone',
     clientId: 'selfservices-app-minusone',
   },
+  supportEmail: 'support@example.com',
 };
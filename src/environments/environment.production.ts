@@ -9,10 +9,20 @@ import { Environment } from './environment.interface';
 export const environment: Environment = {
   production: true,
   enableAuth: true, // Enable Keycloak for production
+  mockApi: false,
   apiUrl: 'https://api.example.com/api',
+  apiTargets: {
+    hr: { url: 'https://hr-api.example.com/api' },
+    finance: { url: 'https://finance-api.example.com/api', timeout: 60000 },
+    ticketing: {
+      url: 'https://ticketing-api.example.com/api',
+      headers: { 'X-Client': 'selfservices' },
+    },
+  },
   keycloak: {
     url: 'https://keycloak.example.com',
     realm: 'selfservices',
     clientId: 'selfservices-app',
   },
+  supportEmail: 'support@example.com',
 };